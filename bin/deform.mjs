@@ -0,0 +1,5 @@
+#!/usr/bin/env node
+// The `deform` command: runs the TypeScript CLI (src/cli/deform.ts) through jiti
+import { createJiti } from "jiti";
+
+await createJiti(import.meta.url).import("../src/cli/deform.ts");
@@ -12,6 +12,9 @@ const eslintConfig = defineConfig([
     "out/**",
     "build/**",
     "next-env.d.ts",
+    // Vendored encoder / decoder builds served as-is
+    "public/draco/**",
+    "public/basis/**",
   ]),
 ]);
 
@@ -0,0 +1,101 @@
+"use client";
+
+import * as THREE from "three";
+import { useState } from "react";
+import {
+  canCompress,
+  EXPORT_FORMATS,
+  exportModel,
+  type ExportFormat,
+} from "../helpers/export";
+import {
+  GLTF_COMPRESSIONS,
+  type GltfCompression,
+} from "../helpers/gltf-compress";
+import type { LoadedModel } from "../helpers/project";
+import type { Companions } from "../helpers/loaders";
+import { saveBlob } from "../helpers/download";
+
+// HUD: export the deformed model as glTF (optionally Draco / meshopt
+// compressed), OBJ, STL, PLY or USDZ. `root` is set once the model is editable.
+export default function ExportPanel({
+  model,
+  root,
+  companions,
+}: {
+  model: LoadedModel | null;
+  root: THREE.Object3D | null;
+  companions?: Companions;
+}) {
+  const [format, setFormat] = useState<ExportFormat>("glb");
+  const [compression, setCompression] = useState<GltfCompression>("none");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const run = async () => {
+    if (!root || !model) return;
+    setBusy(true);
+    try {
+      const files = await exportModel({
+        root,
+        model,
+        format,
+        compression: canCompress(format) ? compression : "none",
+        companions,
+      });
+      for (const f of files) saveBlob(f.blob, f.name);
+      setMessage(null);
+    } catch (err) {
+      console.error("Export error:", err);
+      setMessage(`export failed: ${(err as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mt-2 flex flex-col gap-1">
+      <div className="flex gap-2 items-center">
+        <select
+          className="rounded bg-black/30"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        >
+          {EXPORT_FORMATS.map((f) => (
+            <option key={f.format} value={f.format}>
+              {f.label}
+            </option>
+          ))}
+        </select>
+        {canCompress(format) && (
+          <select
+            className="rounded bg-black/30"
+            value={compression}
+            title="Draco is smaller but lossy (positions quantised to 14 bits); meshopt is lossless"
+            onChange={(e) => setCompression(e.target.value as GltfCompression)}
+          >
+            {GLTF_COMPRESSIONS.map((c) => (
+              <option key={c} value={c}>
+                {c === "none" ? "uncompressed" : c}
+              </option>
+            ))}
+          </select>
+        )}
+        <button
+          className="px-2 rounded bg-white/15 hover:bg-white/25 disabled:opacity-40"
+          type="button"
+          disabled={!root || busy}
+          onClick={run}
+        >
+          {busy ? "exporting…" : "export"}
+        </button>
+      </div>
+
+      {message && (
+        <span className="block whitespace-pre-line text-amber-300">
+          {message}
+        </span>
+      )}
+    </div>
+  );
+}
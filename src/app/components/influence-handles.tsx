@@ -0,0 +1,324 @@
+"use client";
+
+import { useEffect, useMemo, useRef } from "react";
+import { ThreeEvent, useFrame, useThree } from "@react-three/fiber";
+import { TransformControls } from "@react-three/drei";
+import type { TransformControls as TransformControlsImpl } from "three-stdlib";
+import * as THREE from "three";
+
+import { useSelectionRegistry, type PointsEntry } from "../hooks/selection";
+import { useHistory } from "../hooks/history";
+import { useHandles, type InfluenceHandle } from "../hooks/handles";
+import { useKeyHeld } from "../hooks/useKeyHeld";
+import { barycentricPoint } from "../helpers/vertex-edit";
+import { isEditableTarget } from "../helpers/keyboard";
+
+export default function InfluenceHandles({
+  requireKey = "h",
+  controlsRef,
+  defaultRadius = 0.25,
+}: {
+  requireKey?: string;
+  controlsRef?: React.RefObject<{ enabled: boolean } | null>;
+  defaultRadius?: number; // world units
+}) {
+  const { camera, gl } = useThree();
+  const registry = useSelectionRegistry();
+  const { handles, selectedId, add, remove, select } = useHandles();
+
+  const dropHeld = useKeyHeld(requireKey);
+  const gHeld = useKeyHeld("g");
+
+  const dropHeldRef = useRef(false);
+  useEffect(() => {
+    dropHeldRef.current = dropHeld;
+  }, [dropHeld]);
+
+  // --- H + click on the mesh surface drops a new influence point
+  useEffect(() => {
+    const canvasEl = gl.domElement;
+    const raycaster = new THREE.Raycaster();
+    const ndc = new THREE.Vector2();
+    const tri = new THREE.Triangle();
+    const bary = new THREE.Vector3();
+    const a = new THREE.Vector3();
+    const b = new THREE.Vector3();
+    const c = new THREE.Vector3();
+
+    const onDown = (ev: PointerEvent) => {
+      if (!dropHeldRef.current || ev.button !== 0) return;
+
+      const r = canvasEl.getBoundingClientRect();
+      ndc.set(
+        ((ev.clientX - r.left) / r.width) * 2 - 1,
+        -((ev.clientY - r.top) / r.height) * 2 + 1,
+      );
+      raycaster.setFromCamera(ndc, camera);
+
+      // mesh.raycast is disabled by SelectableVertices, so call the class's own
+      // method directly (SkinnedMesh tests the posed triangles)
+      let best: { entry: PointsEntry; hit: THREE.Intersection } | null = null;
+      for (const entry of registry.entries()) {
+        const hits: THREE.Intersection[] = [];
+        const proto = Object.getPrototypeOf(entry.mesh) as THREE.Mesh;
+        proto.raycast.call(entry.mesh, raycaster, hits);
+        for (const hit of hits) {
+          if (!hit.face) continue;
+          if (!best || hit.distance < best.hit.distance) best = { entry, hit };
+        }
+      }
+      if (!best?.hit.face) return;
+
+      const { entry, hit } = best;
+      const face = hit.face!;
+      // points geometry = positions as displayed (posed for skinned meshes)
+      const pos = entry.points.geometry.getAttribute(
+        "position",
+      ) as THREE.BufferAttribute;
+
+      a.fromBufferAttribute(pos, face.a);
+      b.fromBufferAttribute(pos, face.b);
+      c.fromBufferAttribute(pos, face.c);
+      const pLocal = entry.mesh.worldToLocal(hit.point.clone());
+      tri.set(a, b, c).getBarycoord(pLocal, bary);
+
+      const handle = add({
+        meshId: entry.id,
+        face: [face.a, face.b, face.c],
+        bary: [bary.x, bary.y, bary.z],
+        radius: defaultRadius,
+        falloff: "smooth",
+        proportionalMode: "euclidean",
+      });
+      select(handle.id);
+    };
+
+    canvasEl.addEventListener("pointerdown", onDown);
+    return () => canvasEl.removeEventListener("pointerdown", onDown);
+  }, [gl, camera, registry, add, select, defaultRadius]);
+
+  // --- Delete / Backspace removes the selected point
+  useEffect(() => {
+    if (!selectedId) return;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "Delete" && e.key !== "Backspace") return;
+      if (isEditableTarget(e.target)) return;
+
+      remove(selectedId);
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [selectedId, remove]);
+
+  const entriesById = new Map(registry.entries().map((e) => [e.id, e]));
+  const selectedHandle = handles.find((h) => h.id === selectedId) ?? null;
+
+  return (
+    <>
+      {handles.map((h) => {
+        const entry = entriesById.get(h.meshId);
+        if (!entry) return null;
+        return (
+          <HandleMarker
+            key={h.id}
+            handle={h}
+            entry={entry}
+            selected={h.id === selectedId}
+            onSelect={() => select(h.id)}
+          />
+        );
+      })}
+
+      {selectedHandle && !gHeld && (
+        <HandleGizmo
+          key={selectedHandle.id}
+          handle={selectedHandle}
+          entry={entriesById.get(selectedHandle.meshId) ?? null}
+          controlsRef={controlsRef}
+        />
+      )}
+    </>
+  );
+}
+
+const _surfaceLocal = new THREE.Vector3();
+
+// world position of a handle on the (possibly deformed) surface
+function getHandleWorld(
+  handle: InfluenceHandle,
+  entry: PointsEntry,
+  out: THREE.Vector3,
+) {
+  const pos = entry.points.geometry.getAttribute(
+    "position",
+  ) as THREE.BufferAttribute;
+  barycentricPoint(pos, handle.face, handle.bary, _surfaceLocal);
+  entry.mesh.updateWorldMatrix(true, false);
+  return out.copy(_surfaceLocal).applyMatrix4(entry.mesh.matrixWorld);
+}
+
+function HandleMarker({
+  handle,
+  entry,
+  selected,
+  onSelect,
+}: {
+  handle: InfluenceHandle;
+  entry: PointsEntry;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  const { camera } = useThree();
+  const dotRef = useRef<THREE.Mesh | null>(null);
+  const ringRef = useRef<THREE.Mesh | null>(null);
+  const tmp = useMemo(() => new THREE.Vector3(), []);
+
+  // follow the surface every frame (vertices may have been moved by any tool)
+  useFrame(() => {
+    getHandleWorld(handle, entry, tmp);
+
+    const dot = dotRef.current;
+    if (dot) dot.position.copy(tmp);
+
+    const ring = ringRef.current;
+    if (ring) {
+      ring.position.copy(tmp);
+      ring.quaternion.copy(camera.quaternion); // billboard-facing
+      ring.scale.setScalar(handle.radius);
+    }
+  });
+
+  const color = selected ? "#ffd24d" : "#4dd2ff";
+
+  return (
+    <>
+      <mesh
+        ref={dotRef}
+        renderOrder={11}
+        onPointerDown={(e: ThreeEvent<PointerEvent>) => {
+          if (e.nativeEvent.button !== 0) return;
+          e.stopPropagation();
+          onSelect();
+        }}
+      >
+        <sphereGeometry args={[0.02, 16, 12]} />
+        <meshBasicMaterial color={color} depthTest={false} transparent />
+      </mesh>
+
+      <mesh
+        ref={ringRef}
+        raycast={() => null} // don't interfere with clicking
+        renderOrder={10}
+        onUpdate={(o) => o.layers.set(1)} // layer 1 (raycaster is layer 0)
+      >
+        <ringGeometry args={[0.98, 1.0, 96]} />
+        <meshBasicMaterial
+          color={color}
+          transparent
+          opacity={selected ? 0.5 : 0.2}
+          depthTest={false}
+        />
+      </mesh>
+    </>
+  );
+}
+
+// three-stdlib types TransformControls with the plain Object3D event map
+type GizmoEvents = {
+  objectChange: object;
+  "dragging-changed": { value: boolean };
+};
+
+const _identityQuat = new THREE.Quaternion();
+const _unitScale = new THREE.Vector3(1, 1, 1);
+
+// Translate gizmo for the selected handle; dragging it deforms the host mesh
+// with the handle's own radius/falloff (selection is ignored).
+function HandleGizmo({
+  handle,
+  entry,
+  controlsRef,
+}: {
+  handle: InfluenceHandle;
+  entry: PointsEntry | null;
+  controlsRef?: React.RefObject<{ enabled: boolean } | null>;
+}) {
+  const { camera, gl } = useThree();
+  const history = useHistory();
+
+  const pivot = useMemo(() => new THREE.Group(), []);
+  const tcRef = useRef<TransformControlsImpl | null>(null);
+  const draggingRef = useRef(false);
+  const dragStartWorld = useRef(new THREE.Vector3());
+
+  // keep the pivot on the surface point while not dragging
+  useFrame(() => {
+    if (!entry || draggingRef.current) return;
+    getHandleWorld(handle, entry, pivot.position);
+  });
+
+  useEffect(() => {
+    const tc = tcRef.current as THREE.EventDispatcher<GizmoEvents> | null;
+    if (!tc || !entry) return;
+
+    const onObjectChange = () => {
+      if (!draggingRef.current) return;
+      entry.moveSelected({
+        pivotWorld: dragStartWorld.current.clone(),
+        translationWorld: pivot.position.clone().sub(dragStartWorld.current),
+        rotationWorld: _identityQuat,
+        scaleWorld: _unitScale,
+      });
+    };
+
+    const onDraggingChanged = (e: { value: boolean }) => {
+      const isDragging = e.value;
+      draggingRef.current = isDragging;
+      if (controlsRef?.current) controlsRef.current.enabled = !isDragging;
+      gl.domElement.style.cursor = isDragging ? "grabbing" : "default";
+
+      if (isDragging) {
+        getHandleWorld(handle, entry, dragStartWorld.current);
+        pivot.position.copy(dragStartWorld.current);
+
+        history.begin("move influence point");
+        entry.beginMove?.({
+          pivotWorld: dragStartWorld.current,
+          proportionalEnabled: true,
+          proportionalRadiusWorld: handle.radius,
+          falloff: handle.falloff,
+          proportionalMode: handle.proportionalMode,
+          affectSelection: false,
+        });
+      } else {
+        entry.endMove?.();
+        history.commit();
+      }
+    };
+
+    tc.addEventListener("objectChange", onObjectChange);
+    tc.addEventListener("dragging-changed", onDraggingChanged);
+    return () => {
+      tc.removeEventListener("objectChange", onObjectChange);
+      tc.removeEventListener("dragging-changed", onDraggingChanged);
+    };
+  }, [handle, entry, pivot, history, controlsRef, gl]);
+
+  if (!entry) return null;
+
+  return (
+    <>
+      <primitive object={pivot} />
+      <TransformControls
+        ref={tcRef}
+        object={pivot}
+        camera={camera}
+        domElement={gl.domElement}
+        mode="translate"
+        size={0.7}
+      />
+    </>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useHandles } from "../hooks/handles";
+import type { Falloff, ProportionalMode } from "../helpers/vertex-edit";
+
+const FALLOFFS: Falloff[] = ["smooth", "gaussian", "sharp"];
+const DISTANCE_MODES: ProportionalMode[] = ["euclidean", "connected"];
+
+// HUD list of influence points: rename, radius, falloff, delete
+export default function InfluencePanel() {
+  const { handles, selectedId, select, update, remove } = useHandles();
+
+  if (!handles.length) {
+    return (
+      <span className="block mt-2 opacity-60">
+        hold H + click the mesh to add an influence point
+      </span>
+    );
+  }
+
+  return (
+    <div className="mt-2 flex flex-col gap-1 max-h-72 overflow-y-auto">
+      <span className="block opacity-80">influence points</span>
+
+      {handles.map((h) => {
+        const selected = h.id === selectedId;
+        return (
+          <div
+            key={h.id}
+            className={`flex flex-col gap-1 p-2 rounded ${
+              selected ? "bg-white/20" : "bg-white/5 hover:bg-white/10"
+            }`}
+            onClick={() => select(h.id)}
+          >
+            <div className="flex gap-2 items-center">
+              <input
+                className="flex-1 min-w-0 px-1 rounded bg-black/30"
+                value={h.name}
+                onChange={(e) => update(h.id, { name: e.target.value })}
+              />
+              <button
+                className="px-2 rounded bg-white/15 hover:bg-white/25"
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  remove(h.id);
+                }}
+              >
+                delete
+              </button>
+            </div>
+
+            <label className="flex gap-2 items-center">
+              <span className="w-12 opacity-80">radius</span>
+              <input
+                className="flex-1"
+                type="range"
+                min={0.01}
+                max={1}
+                step={0.005}
+                value={h.radius}
+                onChange={(e) =>
+                  update(h.id, { radius: parseFloat(e.target.value) })
+                }
+              />
+              <span className="w-10 text-right tabular-nums">
+                {h.radius.toFixed(2)}
+              </span>
+            </label>
+
+            <label className="flex gap-2 items-center">
+              <span className="w-12 opacity-80">falloff</span>
+              <select
+                className="flex-1 rounded bg-black/30"
+                value={h.falloff}
+                onChange={(e) =>
+                  update(h.id, { falloff: e.target.value as Falloff })
+                }
+              >
+                {FALLOFFS.map((f) => (
+                  <option key={f} value={f}>
+                    {f}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex gap-2 items-center">
+              <span className="w-12 opacity-80">distance</span>
+              <select
+                className="flex-1 rounded bg-black/30"
+                value={h.proportionalMode}
+                onChange={(e) =>
+                  update(h.id, {
+                    proportionalMode: e.target.value as ProportionalMode,
+                  })
+                }
+              >
+                {DISTANCE_MODES.map((m) => (
+                  <option key={m} value={m}>
+                    {m}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import * as THREE from "three";
+import { useMemo } from "react";
+import { useToolSettings } from "../hooks/tool-settings";
+import { useSelectionRegistry } from "../hooks/selection";
+import { getMirrorMap, MIRROR_AXES, type MirrorAxis } from "../helpers/mirror";
+
+const OPTIONS: { axis: MirrorAxis | null; label: string }[] = [
+  { axis: null, label: "off" },
+  ...MIRROR_AXES.map((axis) => ({ axis, label: axis.toUpperCase() })),
+];
+
+// below this share of vertices with a counterpart, mirroring is flagged as patchy
+const FEW_PAIRS = 0.5;
+
+// HUD toggle for symmetric editing, with how much of the model found a
+// counterpart across the chosen plane. `root` is set once the model's meshes
+// are registered.
+export default function MirrorPanel({ root }: { root: THREE.Object3D | null }) {
+  const { settings, update } = useToolSettings();
+  const registry = useSelectionRegistry();
+  const axis = settings.mirrorAxis;
+
+  const coverage = useMemo(() => {
+    if (!root || !axis) return null;
+    let exact = 0;
+    let surface = 0;
+    let unmatched = 0;
+    for (const entry of registry.entries()) {
+      const map = getMirrorMap(entry.mesh.geometry, axis);
+      exact += map.exact;
+      surface += map.surface;
+      unmatched += map.unmatched;
+    }
+    return { exact, surface, total: exact + surface + unmatched };
+  }, [registry, root, axis]);
+
+  let status: string | null = null;
+  let warn = false;
+  if (axis && coverage?.total) {
+    const matched = coverage.exact + coverage.surface;
+    const share = Math.round((matched / coverage.total) * 100);
+    warn = matched < coverage.total * FEW_PAIRS;
+    status = !matched
+      ? `nothing mirrors across ${axis.toUpperCase()}: edits stay one-sided`
+      : `${share}% of vertices mirrored` +
+        (coverage.surface ? `, ${coverage.surface} onto the surface` : "");
+  }
+
+  return (
+    <div className="mt-2 flex flex-col gap-1">
+      <div
+        className="flex gap-1 items-center"
+        title="edits on one side of the mesh's local plane are mirrored to the other"
+      >
+        <span className="w-12 opacity-80">mirror</span>
+        {OPTIONS.map(({ axis, label }) => (
+          <button
+            key={label}
+            className={`px-2 rounded ${
+              settings.mirrorAxis === axis
+                ? "bg-white/40"
+                : "bg-white/15 hover:bg-white/25"
+            }`}
+            type="button"
+            onClick={() => update({ mirrorAxis: axis })}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {status && (
+        <span
+          className={warn ? "text-amber-300" : "opacity-70"}
+          title="vertices with no counterpart vertex follow the nearest point of the surface on the other side; those with no surface near are left alone"
+        >
+          {status}
+        </span>
+      )}
+    </div>
+  );
+}
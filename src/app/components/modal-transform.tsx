@@ -0,0 +1,462 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useThree } from "@react-three/fiber";
+import * as THREE from "three";
+
+import { useSelectionRegistry } from "../hooks/selection";
+import { useHistory } from "../hooks/history";
+import {
+  nextProportionalRadius,
+  useToolSettings,
+} from "../hooks/tool-settings";
+import { isEditableTarget } from "../helpers/keyboard";
+import { worldPerModelUnit } from "../helpers/units";
+import type { PivotTransform } from "../helpers/vertex-edit";
+
+type ModalMode = "translate" | "rotate" | "scale";
+
+type Modal = {
+  mode: ModalMode;
+  pivotWorld: THREE.Vector3;
+  // canvas pixels
+  pivotScreen: THREE.Vector2;
+  startMouse: THREE.Vector2;
+  // locked world axis (0 = X, 1 = Y, 2 = Z); plane = lock to the other two
+  axis: number | null;
+  plane: boolean;
+  // digits typed so far (exact offset / angle / factor)
+  typed: string;
+  // rotate: accumulated angle and the last mouse angle around the pivot
+  angle: number;
+  lastScreenAngle: number;
+  // world units per model unit, for typed offsets and the readout
+  unit: number;
+};
+
+const AXIS_NAMES = ["X", "Y", "Z"];
+const AXES = [
+  new THREE.Vector3(1, 0, 0),
+  new THREE.Vector3(0, 1, 0),
+  new THREE.Vector3(0, 0, 1),
+];
+const LABELS: Record<ModalMode, string> = {
+  translate: "move",
+  rotate: "rotate",
+  scale: "scale",
+};
+
+// G taps shorter than this start a modal move; longer holds show the gizmo
+const TAP_MS = 250;
+
+// Blender-style modal transforms of the selection:
+//   tap G (move), press R (rotate) or S (scale), then move the mouse.
+//   X / Y / Z lock to a world axis, Shift + X / Y / Z to the plane across it
+//   (press again to unlock). Typing a number sets the exact offset (model units),
+//   angle (degrees) or factor. The mouse wheel resizes the proportional radius.
+//   Enter / click confirms, Esc / right-click cancels.
+export default function ModalTransform({
+  controlsRef,
+  overlayRef,
+  grabKey = "g",
+  rotateKey = "r",
+  scaleKey = "s",
+}: {
+  controlsRef?: React.RefObject<{ enabled: boolean } | null>;
+  overlayRef: React.RefObject<HTMLDivElement | null>;
+  grabKey?: string;
+  rotateKey?: string;
+  scaleKey?: string;
+}) {
+  const { gl, camera } = useThree();
+  const registry = useSelectionRegistry();
+  const history = useHistory();
+  const { settings, update } = useToolSettings();
+
+  // read when a modal starts, so changing settings doesn't end the modal
+  const settingsRef = useRef(settings);
+  useEffect(() => {
+    settingsRef.current = settings;
+  }, [settings]);
+
+  const sculptEnabled = settings.sculptEnabled;
+  useEffect(() => {
+    if (sculptEnabled) return;
+
+    const canvasEl = gl.domElement;
+    const mouse = new THREE.Vector2();
+    const raycaster = new THREE.Raycaster();
+    const ndc = new THREE.Vector2();
+    const plane = new THREE.Plane();
+    const a = new THREE.Vector3();
+    const b = new THREE.Vector3();
+    const tmp = new THREE.Vector3();
+
+    let modal: Modal | null = null;
+    let gDownAt: number | null = null;
+    let swallowClick = false;
+
+    // on-screen readout of the current delta
+    const readout = document.createElement("div");
+    readout.className =
+      "absolute bottom-3 left-1/2 -translate-x-1/2 px-3 py-1 rounded bg-black/60 text-white text-sm font-mono whitespace-pre";
+    readout.style.display = "none";
+    overlayRef.current?.appendChild(readout);
+
+    const setOrbit = (enabled: boolean) => {
+      if (controlsRef?.current) controlsRef.current.enabled = enabled;
+    };
+
+    const toScreen = (world: THREE.Vector3, out: THREE.Vector2) => {
+      const r = canvasEl.getBoundingClientRect();
+      tmp.copy(world).project(camera);
+      return out.set(
+        (tmp.x * 0.5 + 0.5) * r.width,
+        (-tmp.y * 0.5 + 0.5) * r.height,
+      );
+    };
+
+    const rayAt = (p: THREE.Vector2) => {
+      const r = canvasEl.getBoundingClientRect();
+      ndc.set((p.x / r.width) * 2 - 1, -(p.y / r.height) * 2 + 1);
+      raycaster.setFromCamera(ndc, camera);
+      return raycaster.ray;
+    };
+
+    const screenAngle = (m: Modal, p: THREE.Vector2) =>
+      Math.atan2(-(p.y - m.pivotScreen.y), p.x - m.pivotScreen.x);
+
+    // point under the mouse, constrained like the move: on the locked axis,
+    // on the locked plane, or on the view plane through the pivot
+    const constrainedPoint = (
+      m: Modal,
+      p: THREE.Vector2,
+      out: THREE.Vector3,
+    ) => {
+      const ray = rayAt(p);
+      if (m.axis !== null && !m.plane) {
+        a.copy(AXES[m.axis]).multiplyScalar(1e4);
+        ray.distanceSqToSegment(
+          b.copy(m.pivotWorld).sub(a),
+          tmp.copy(m.pivotWorld).add(a),
+          undefined,
+          out,
+        );
+        return out;
+      }
+      const normal =
+        m.axis !== null ? AXES[m.axis] : camera.getWorldDirection(a);
+      plane.setFromNormalAndCoplanarPoint(normal, m.pivotWorld);
+      return ray.intersectPlane(plane, out) ?? out.copy(m.pivotWorld);
+    };
+
+    const typedValue = (m: Modal) => {
+      const v = parseFloat(m.typed);
+      return m.typed && Number.isFinite(v) ? v : null;
+    };
+
+    // rotate: degrees, counter-clockwise on screen (or as typed)
+    const angleDegrees = (m: Modal) =>
+      typedValue(m) ?? THREE.MathUtils.radToDeg(m.angle);
+
+    // scale: distance to the pivot relative to where the mouse started
+    const scaleFactor = (m: Modal) =>
+      typedValue(m) ??
+      mouse.distanceTo(m.pivotScreen) /
+        Math.max(m.startMouse.distanceTo(m.pivotScreen), 1);
+
+    // the change since the modal started, as the gizmo would report it
+    const currentTransform = (m: Modal): PivotTransform => {
+      const t = identityTransform(m.pivotWorld);
+      const typed = typedValue(m);
+
+      if (m.mode === "translate") {
+        if (typed !== null) {
+          // along the locked axis (the first free one for a plane lock, X if none)
+          const axis = m.plane ? (m.axis === 0 ? 1 : 0) : (m.axis ?? 0);
+          t.translationWorld.copy(AXES[axis]).multiplyScalar(typed * m.unit);
+        } else {
+          const from = constrainedPoint(m, m.startMouse, new THREE.Vector3());
+          const to = constrainedPoint(m, mouse, new THREE.Vector3());
+          t.translationWorld.subVectors(to, from);
+        }
+      } else if (m.mode === "rotate") {
+        // about the locked axis, or the view axis (pointing at the viewer)
+        const toViewer = camera.getWorldDirection(new THREE.Vector3()).negate();
+        const axis = m.axis !== null ? AXES[m.axis].clone() : toViewer;
+        let angle = THREE.MathUtils.degToRad(angleDegrees(m));
+        // mouse: counter-clockwise on screen, whichever way the axis faces
+        if (typed === null && axis.dot(toViewer) < 0) angle = -angle;
+        t.rotationWorld.setFromAxisAngle(axis, angle);
+      } else {
+        const f = scaleFactor(m);
+        if (m.axis === null) t.scaleWorld.setScalar(f);
+        else if (m.plane) t.scaleWorld.setScalar(f).setComponent(m.axis, 1);
+        else t.scaleWorld.setComponent(m.axis, f);
+      }
+      return t;
+    };
+
+    const showReadout = (m: Modal, t: PivotTransform) => {
+      const lock =
+        m.axis === null
+          ? ""
+          : m.plane
+            ? ` on ${AXIS_NAMES.filter((_, k) => k !== m.axis).join("")}`
+            : ` along ${AXIS_NAMES[m.axis]}`;
+
+      let value: string;
+      if (m.mode === "translate") {
+        const d = t.translationWorld.clone().divideScalar(m.unit);
+        value = `D ${fmt(d.length())}  (${fmt(d.x)}, ${fmt(d.y)}, ${fmt(d.z)})`;
+      } else if (m.mode === "rotate") {
+        value = `${fmt(angleDegrees(m))}°`;
+      } else {
+        value = `×${fmt(scaleFactor(m))}`;
+      }
+
+      const typed = m.typed ? `  [${m.typed}|]` : "";
+      readout.textContent = `${LABELS[m.mode]}${lock}: ${value}${typed}`;
+      readout.style.display = "block";
+    };
+
+    const apply = () => {
+      if (!modal) return;
+      const t = currentTransform(modal);
+      for (const entry of registry.entries()) entry.moveSelected(t);
+      showReadout(modal, t);
+    };
+
+    const selectionCentroidWorld = () => {
+      const centroid = new THREE.Vector3();
+      let n = 0;
+      for (const entry of registry.entries()) {
+        const selected = entry.getSelected();
+        if (!selected.length) continue;
+        const pos = entry.points.geometry.getAttribute(
+          "position",
+        ) as THREE.BufferAttribute;
+        entry.points.updateWorldMatrix(true, false);
+        for (const i of selected) {
+          centroid.add(
+            tmp
+              .fromBufferAttribute(pos, i)
+              .applyMatrix4(entry.points.matrixWorld),
+          );
+          n++;
+        }
+      }
+      return n ? centroid.divideScalar(n) : null;
+    };
+
+    // snapshots positions and works out the weights for the current settings
+    const beginMoves = (pivotWorld: THREE.Vector3) => {
+      const s = settingsRef.current;
+      for (const entry of registry.entries()) {
+        entry.beginMove?.({
+          pivotWorld,
+          proportionalEnabled: s.proportionalEnabled,
+          proportionalRadiusWorld: s.proportionalRadius,
+          falloff: s.proportionalFalloff,
+          proportionalMode: s.proportionalMode,
+        });
+      }
+    };
+
+    const start = (mode: ModalMode) => {
+      if (modal) return;
+      const pivotWorld = selectionCentroidWorld();
+      if (!pivotWorld) return;
+
+      const entries = registry.entries();
+      const pivotScreen = toScreen(pivotWorld, new THREE.Vector2());
+      modal = {
+        mode,
+        pivotWorld,
+        pivotScreen,
+        startMouse: mouse.clone(),
+        axis: null,
+        plane: false,
+        typed: "",
+        angle: 0,
+        lastScreenAngle: 0,
+        unit: entries.length ? worldPerModelUnit(entries[0].mesh) : 1,
+      };
+      modal.lastScreenAngle = screenAngle(modal, mouse);
+
+      // one undo step, like a gizmo drag
+      history.begin(LABELS[mode]);
+      beginMoves(pivotWorld);
+      setOrbit(false);
+      apply();
+    };
+
+    const finish = (confirm: boolean) => {
+      if (!modal) return;
+      if (!confirm) {
+        // back to the snapshot taken when the modal started
+        const identity = identityTransform(modal.pivotWorld);
+        for (const entry of registry.entries()) entry.moveSelected(identity);
+      }
+      for (const entry of registry.entries()) entry.endMove?.();
+      history.commit();
+
+      modal = null;
+      readout.style.display = "none";
+      setOrbit(true);
+    };
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target)) return;
+
+      if (!modal) {
+        if (e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+        const key = e.key.toLowerCase();
+        if (key === grabKey) gDownAt ??= performance.now();
+        else if (key === rotateKey) start("rotate");
+        else if (key === scaleKey) start("scale");
+        return;
+      }
+
+      // the modal owns the keyboard until it ends
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      const m = modal;
+
+      if (e.key === "Escape") return finish(false);
+      if (e.key === "Enter") return finish(true);
+
+      const axis = AXIS_NAMES.indexOf(e.key.toUpperCase());
+      if (axis >= 0) {
+        const same = m.axis === axis && m.plane === e.shiftKey;
+        m.axis = same ? null : axis;
+        m.plane = !same && e.shiftKey;
+      } else if (/^[0-9.]$/.test(e.key)) {
+        m.typed += e.key;
+      } else if (e.key === "-") {
+        m.typed = m.typed.startsWith("-") ? m.typed.slice(1) : `-${m.typed}`;
+      } else if (e.key === "Backspace") {
+        m.typed = m.typed.slice(0, -1);
+      } else {
+        return;
+      }
+      apply();
+    };
+
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() !== grabKey || gDownAt === null) return;
+      const tapped = performance.now() - gDownAt < TAP_MS;
+      gDownAt = null;
+      if (tapped) start("translate");
+    };
+
+    const onPointerMove = (e: PointerEvent) => {
+      const r = canvasEl.getBoundingClientRect();
+      mouse.set(e.clientX - r.left, e.clientY - r.top);
+      if (!modal) return;
+
+      const angle = screenAngle(modal, mouse);
+      let d = angle - modal.lastScreenAngle;
+      if (d > Math.PI) d -= Math.PI * 2;
+      if (d < -Math.PI) d += Math.PI * 2;
+      modal.angle += d;
+      modal.lastScreenAngle = angle;
+
+      if (!modal.typed) apply();
+    };
+
+    const onPointerDown = (e: PointerEvent) => {
+      // a press while G is down drags the gizmo instead
+      gDownAt = null;
+      swallowClick = false;
+      if (!modal) return;
+      // not OrbitControls (same element) nor R3F (parent): this press only ends the modal
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      swallowClick = true; // or the click would clear the selection
+      finish(e.button === 0);
+    };
+
+    const onClick = (e: MouseEvent) => {
+      if (!swallowClick) return;
+      swallowClick = false;
+      e.stopPropagation();
+    };
+
+    const onContextMenu = (e: MouseEvent) => {
+      if (modal || swallowClick) e.preventDefault();
+    };
+
+    // wheel during a modal: resize the proportional radius and carry on with
+    // the new weights (ahead of the gizmo's own wheel handler)
+    const onWheel = (e: WheelEvent) => {
+      if (!modal) return;
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      const s = settingsRef.current;
+      if (!s.proportionalEnabled || !e.deltaY) return;
+
+      const radius = nextProportionalRadius(s.proportionalRadius, e.deltaY);
+      settingsRef.current = { ...s, proportionalRadius: radius };
+      update({ proportionalRadius: radius });
+
+      // weights are fixed per drag: back to the start and begin again
+      const identity = identityTransform(modal.pivotWorld);
+      for (const entry of registry.entries()) entry.moveSelected(identity);
+      beginMoves(modal.pivotWorld);
+      apply();
+    };
+
+    window.addEventListener("keydown", onKeyDown, { capture: true });
+    window.addEventListener("keyup", onKeyUp);
+    canvasEl.addEventListener("pointermove", onPointerMove);
+    canvasEl.addEventListener("pointerdown", onPointerDown, { capture: true });
+    canvasEl.addEventListener("click", onClick, { capture: true });
+    canvasEl.addEventListener("contextmenu", onContextMenu);
+    window.addEventListener("wheel", onWheel, {
+      capture: true,
+      passive: false,
+    });
+
+    return () => {
+      finish(false);
+      readout.remove();
+      window.removeEventListener("keydown", onKeyDown, { capture: true });
+      window.removeEventListener("keyup", onKeyUp);
+      canvasEl.removeEventListener("pointermove", onPointerMove);
+      canvasEl.removeEventListener("pointerdown", onPointerDown, {
+        capture: true,
+      });
+      canvasEl.removeEventListener("click", onClick, { capture: true });
+      canvasEl.removeEventListener("contextmenu", onContextMenu);
+      window.removeEventListener("wheel", onWheel, { capture: true });
+    };
+  }, [
+    gl,
+    camera,
+    registry,
+    history,
+    controlsRef,
+    overlayRef,
+    grabKey,
+    rotateKey,
+    scaleKey,
+    sculptEnabled,
+    update,
+  ]);
+
+  return null;
+}
+
+function identityTransform(pivotWorld: THREE.Vector3): PivotTransform {
+  return {
+    pivotWorld: pivotWorld.clone(),
+    translationWorld: new THREE.Vector3(),
+    rotationWorld: new THREE.Quaternion(),
+    scaleWorld: new THREE.Vector3(1, 1, 1),
+  };
+}
+
+function fmt(v: number) {
+  return (Math.abs(v) < 5e-5 ? 0 : v).toFixed(4).replace(/\.?0+$/, "");
+}
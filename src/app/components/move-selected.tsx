@@ -4,36 +4,78 @@ import { useEffect, useMemo, useRef, useState } from "react";
 import { useThree, useFrame } from "@react-three/fiber";
 import { TransformControls } from "@react-three/drei";
 import * as THREE from "three";
+import type { PivotTransform } from "../helpers/vertex-edit";
+import { isEditableTarget } from "../helpers/keyboard";
 import { useSelectionRegistry } from "../hooks/selection";
+import { useHistory } from "../hooks/history";
+import {
+  nextProportionalRadius,
+  useToolSettings,
+} from "../hooks/tool-settings";
+import { useKeyHeld } from "../hooks/useKeyHeld";
+import {
+  collectSnapSurface,
+  collectSnapVertices,
+  constrainToAxes,
+  nearestSnapVertex,
+  projectOntoSurface,
+  snapToGrid,
+  type SnapMode,
+  type SnapSurface,
+} from "../helpers/snapping";
+
+type TransformMode = "translate" | "rotate" | "scale";
+
+const MODE_CYCLE: TransformMode[] = ["translate", "rotate", "scale"];
 
 export default function MoveSelected({
   requireKey = "g",
+  cycleModeKey = "m",
   controlsRef,
-  mode = "translate",
-  proportionalEnabled: proportionalEnabledProp = true,
-  proportionalRadius = 0.25,
-  falloff = "smooth",
+  mode: modeProp = "translate",
+  gridSize = 0.1,
 }: {
   requireKey?: string | null;
+  // cycles the gizmo between translate (G) / rotate (R) / scale (S)
+  cycleModeKey?: string | null;
   controlsRef?: React.RefObject<{ enabled: boolean } | null>;
-  mode?: "translate" | "rotate" | "scale";
-
-  // ✅ new
-  proportionalEnabled?: boolean;
-  proportionalRadius?: number; // world units
-  falloff?: "smooth" | "gaussian" | "sharp";
+  mode?: TransformMode;
+  // grid snapping step (world units), normally the viewport grid's cell size
+  gridSize?: number;
 }) {
   const { camera, gl } = useThree();
   const registry = useSelectionRegistry();
+  const history = useHistory();
 
   const pivot = useMemo(() => new THREE.Group(), []);
   const tcRef = useRef<any>(null);
 
   const [enabled, setEnabled] = useState(requireKey == null); // if no key required, always on
-  const [proportionalEnabled, setProportionalEnabled] = useState(
-    proportionalEnabledProp,
-  );
-  const [radiusWorld, setRadiusWorld] = useState(proportionalRadius);
+  const [mode, setMode] = useState<TransformMode>(modeProp);
+  // shared with the modal G / R / S transform
+  const { settings, update } = useToolSettings();
+  const {
+    proportionalEnabled,
+    proportionalRadius: radiusWorld,
+    proportionalMode,
+    proportionalFalloff: falloff,
+    snapEnabled,
+    snapMode,
+  } = settings;
+
+  // Ctrl flips snapping for the current drag
+  const ctrlHeld = useKeyHeld("control");
+  const snappingRef = useRef(false);
+  useEffect(() => {
+    snappingRef.current = snapEnabled !== ctrlHeld;
+  }, [snapEnabled, ctrlHeld]);
+
+  // vertex snap targets (world, taken at drag start) and the snapped move so far
+  const snapTargetsRef = useRef<Float32Array[]>([]);
+  // surface snap targets: each registered mesh's surface by entry id (taken at drag start)
+  const snapSurfacesRef = useRef(new Map<string, SnapSurface>());
+  const snappedTranslation = useRef(new THREE.Vector3());
+  const snapMarkerRef = useRef<THREE.Mesh | null>(null);
 
   const dragStartPivotWorld = useRef(new THREE.Vector3());
   const tmpV = useMemo(() => new THREE.Vector3(), []);
@@ -51,6 +93,9 @@ export default function MoveSelected({
     m.position.copy(tmpV);
     m.quaternion.copy(camera.quaternion); // billboard-facing
     m.scale.setScalar(radiusWorld); // scale to radius (world units)
+    (m.material as THREE.MeshBasicMaterial).color.set(
+      proportionalMode === "connected" ? "#4dd2ff" : "#ffffff",
+    );
   });
 
   // --- key handling (toggles visibility/interaction)
@@ -61,6 +106,7 @@ export default function MoveSelected({
     }
 
     const down = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target)) return;
       if (e.key.toLowerCase() === requireKey.toLowerCase()) setEnabled(true);
     };
     const up = (e: KeyboardEvent) => {
@@ -113,7 +159,7 @@ export default function MoveSelected({
     tcRef.current?.update?.();
   }, [enabled, registry, pivot]);
 
-  // --- when gizmo moves, deform selected vertices by deltaWorld
+  // --- when gizmo moves, deform selected vertices by the pivot's change since drag start
   useEffect(() => {
     if (!enabled) return;
     const tc = tcRef.current;
@@ -123,13 +169,85 @@ export default function MoveSelected({
       // Get pivot position in WORLD space
       pivot.getWorldPosition(tmpV);
 
-      const totalDeltaWorld = tmpV.clone().sub(dragStartPivotWorld.current);
+      // pivot starts every drag with identity rotation/scale (reset on drag end),
+      // so its current rotation/scale *is* the change since drag start
+      const transform: PivotTransform = {
+        pivotWorld: dragStartPivotWorld.current.clone(),
+        translationWorld: tmpV.clone().sub(dragStartPivotWorld.current),
+        rotationWorld: pivot.quaternion.clone(),
+        scaleWorld: pivot.scale.clone(),
+      };
+
+      const snapping = snappingRef.current && mode === "translate";
+      const target = snapping
+        ? snapMove(snapMode, transform.translationWorld)
+        : null;
+      showSnapMarker(snapping ? snapMode : null, target);
+      snappedTranslation.current.copy(transform.translationWorld);
+
+      const isIdentity =
+        transform.translationWorld.lengthSq() === 0 &&
+        transform.rotationWorld.equals(_identityQuat) &&
+        transform.scaleWorld.equals(_unitScale);
+      // (a snapped move can round back to zero and must still be applied)
+      if (isIdentity && !snapping) return;
+
+      const entries = registry.entries();
+      const surfaces = snapSurfacesRef.current;
+      for (const entry of entries) {
+        // surface snap: onto any other mesh
+        const others = [...surfaces]
+          .filter(([id]) => id !== entry.id)
+          .map(([, s]) => s);
+        entry.moveSelected(
+          transform,
+          snapping && snapMode === "surface"
+            ? { project: (world) => projectOntoSurface(world, camera, others) }
+            : undefined,
+        );
+      }
+    };
 
-      if (totalDeltaWorld.lengthSq() === 0) return;
+    // snaps the pivot's move in place; returns where the snap landed (for the marker)
+    const snapMove = (snap: SnapMode, translation: THREE.Vector3) => {
+      const start = dragStartPivotWorld.current;
+      const axes: string | null = tc.axis ?? null;
+
+      if (snap === "grid") {
+        constrainToAxes(snapToGrid(translation, gridSize), axes);
+        return start.clone().add(translation);
+      }
 
-      for (const entry of registry.entries()) {
-        entry.moveSelected(totalDeltaWorld);
+      const target = start.clone().add(translation);
+      if (snap === "vertex") {
+        if (!nearestSnapVertex(snapTargetsRef.current, target, target)) {
+          return null;
+        }
+        constrainToAxes(translation.subVectors(target, start), axes);
+        return target;
       }
+
+      // surface: vertices are projected one by one; mark where the pivot would land
+      const unselected = registry
+        .entries()
+        .filter((e) => !e.getSelected().length)
+        .flatMap((e) => snapSurfacesRef.current.get(e.id) ?? []);
+      return projectOntoSurface(target, camera, unselected) ? target : null;
+    };
+
+    const showSnapMarker = (
+      snap: SnapMode | null,
+      at: THREE.Vector3 | null,
+    ) => {
+      const m = snapMarkerRef.current;
+      if (!m) return;
+      m.visible = !!snap && !!at;
+      if (!snap || !at) return;
+
+      m.position.copy(at);
+      // roughly constant size on screen
+      m.scale.setScalar(camera.position.distanceTo(at) * 0.012);
+      (m.material as THREE.MeshBasicMaterial).color.set(SNAP_COLORS[snap]);
     };
 
     const onDraggingChanged = (e: any) => {
@@ -142,18 +260,58 @@ export default function MoveSelected({
         pivot.getWorldPosition(tmpV);
         dragStartPivotWorld.current.copy(tmpV);
 
+        // one undo step per drag, across every mesh the drag touches
+        history.begin(mode);
+
+        snappedTranslation.current.set(0, 0, 0);
+        snapTargetsRef.current =
+          snapMode === "vertex"
+            ? registry
+                .entries()
+                .map((e) =>
+                  collectSnapVertices(
+                    e.points,
+                    e.mesh.geometry,
+                    e.getSelected(),
+                  ),
+                )
+            : [];
+        // (a lone mesh has nothing else to snap onto)
+        const entries = registry.entries();
+        snapSurfacesRef.current = new Map(
+          snapMode === "surface" && entries.length > 1
+            ? entries.map((e) => [e.id, collectSnapSurface(e.points, e.mesh)])
+            : [],
+        );
+
         for (const entry of registry.entries()) {
           entry.beginMove?.({
             pivotWorld: tmpV,
             proportionalEnabled,
             proportionalRadiusWorld: radiusWorld,
             falloff,
+            proportionalMode,
           });
         }
       } else {
         for (const entry of registry.entries()) {
           entry.endMove?.();
         }
+
+        history.commit();
+        showSnapMarker(null, null);
+
+        // the gizmo follows the mouse; put it where the (snapped) vertices went
+        if (mode === "translate") {
+          pivot.position
+            .copy(dragStartPivotWorld.current)
+            .add(snappedTranslation.current);
+        }
+
+        // the vertices now carry the rotation/scale; start the next drag from identity
+        pivot.quaternion.identity();
+        pivot.scale.set(1, 1, 1);
+        tc.update?.();
       }
     };
 
@@ -167,27 +325,55 @@ export default function MoveSelected({
   }, [
     enabled,
     registry,
+    history,
+    mode,
     pivot,
     tmpV,
     controlsRef,
     gl,
     proportionalEnabled,
+    proportionalMode,
     radiusWorld,
     falloff,
+    snapMode,
+    gridSize,
+    camera,
   ]);
 
-  // Toggle proportional editing with "o"
+  // Cycle translate -> rotate -> scale
   useEffect(() => {
+    if (!cycleModeKey) return;
+
     const onKeyDown = (e: KeyboardEvent) => {
-      if (e.key.toLowerCase() === "o") {
-        setProportionalEnabled((v) => {
-          return !v;
+      if (isEditableTarget(e.target)) return;
+      if (e.key.toLowerCase() !== cycleModeKey.toLowerCase()) return;
+      setMode(
+        (m) => MODE_CYCLE[(MODE_CYCLE.indexOf(m) + 1) % MODE_CYCLE.length],
+      );
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [cycleModeKey]);
+
+  // Toggle proportional editing with "o", connected/euclidean distance with shift + "o"
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target)) return;
+      if (e.key.toLowerCase() !== "o") return;
+
+      if (e.shiftKey) {
+        update({
+          proportionalMode:
+            proportionalMode === "connected" ? "euclidean" : "connected",
         });
+        return;
       }
+
+      update({ proportionalEnabled: !proportionalEnabled });
     };
     window.addEventListener("keydown", onKeyDown);
     return () => window.removeEventListener("keydown", onKeyDown);
-  }, []);
+  }, [update, proportionalEnabled, proportionalMode]);
 
   // Mouse wheel adjusts proportional radius while tool is enabled
   useEffect(() => {
@@ -196,16 +382,14 @@ export default function MoveSelected({
     const onWheel = (e: WheelEvent) => {
       if (!proportionalEnabled) return;
       e.preventDefault();
-      const dir = Math.sign(e.deltaY);
-      setRadiusWorld((r) => {
-        const next = r * (dir > 0 ? 0.9 : 1.1);
-        return Math.min(Math.max(next, 0.001), 1000);
+      update({
+        proportionalRadius: nextProportionalRadius(radiusWorld, e.deltaY),
       });
     };
 
     window.addEventListener("wheel", onWheel, { passive: false });
     return () => window.removeEventListener("wheel", onWheel as any);
-  }, [enabled, proportionalEnabled]);
+  }, [enabled, proportionalEnabled, radiusWorld, update]);
 
   // No selection? no gizmo.
   const hasAnySelection = registry
@@ -235,6 +419,17 @@ export default function MoveSelected({
         />
       </mesh>
 
+      <mesh
+        ref={snapMarkerRef}
+        raycast={() => null}
+        renderOrder={11}
+        visible={false}
+        onUpdate={(o) => o.layers.set(1)} // layer 1 (raycaster is layer 0)
+      >
+        <sphereGeometry args={[1, 12, 8]} />
+        <meshBasicMaterial color="#ffffff" depthTest={false} />
+      </mesh>
+
       <TransformControls
         ref={tcRef}
         object={pivot}
@@ -247,3 +442,12 @@ export default function MoveSelected({
     </>
   );
 }
+
+const SNAP_COLORS: Record<SnapMode, string> = {
+  grid: "#ffd24d",
+  vertex: "#ff6bff",
+  surface: "#4dff88",
+};
+
+const _identityQuat = new THREE.Quaternion();
+const _unitScale = new THREE.Vector3(1, 1, 1);
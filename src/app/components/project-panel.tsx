@@ -0,0 +1,379 @@
+"use client";
+
+import * as THREE from "three";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useSelectionRegistry, type PointsEntry } from "../hooks/selection";
+import { createPositionChange, useHistory } from "../hooks/history";
+import { pickToolSettings, useToolSettings } from "../hooks/tool-settings";
+import {
+  captureProject,
+  fromBase64,
+  meshesByPath,
+  parseProject,
+  projectPositions,
+  type LoadedModel,
+  type ProjectFile,
+} from "../helpers/project";
+import { getBasePositions } from "../helpers/shape-keys";
+import {
+  deleteAutosave,
+  readAutosave,
+  writeAutosave,
+} from "../helpers/autosave";
+import {
+  captureDisplacement,
+  decodeDisplacement,
+  displacedPositions,
+  encodeDisplacement,
+  matchDisplacement,
+} from "../helpers/displacement";
+import { saveBlob } from "../helpers/download";
+
+const AUTOSAVE_INTERVAL_MS = 5000;
+
+// HUD: save / open project files, export / apply displacement files, autosave to IndexedDB and the offer to
+// restore the autosaved session when its model is dropped again.
+// `root` is set once the model's meshes are registered.
+export default function ProjectPanel({
+  model,
+  root,
+  openModel,
+}: {
+  model: LoadedModel | null;
+  root: THREE.Object3D | null;
+  openModel: (name: string, bytes: ArrayBuffer) => void;
+}) {
+  const registry = useSelectionRegistry();
+  const history = useHistory();
+  const { settings, update } = useToolSettings();
+  const [embedModel, setEmbedModel] = useState(false);
+  const [offer, setOffer] = useState<ProjectFile | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const displacementInputRef = useRef<HTMLInputElement>(null);
+
+  // a project opened before its model was loaded, applied once it is
+  const pendingRef = useRef<ProjectFile | null>(null);
+  // edits or setting changes since the last autosave
+  const dirtyRef = useRef(false);
+  // the stored session is still being read (not autosaved over meanwhile)
+  const readingRef = useRef(false);
+
+  const capture = useCallback(
+    (embed = false) => {
+      if (!root || !model) return null;
+      const entries = registry.entries();
+      return captureProject({
+        root,
+        model,
+        settings,
+        embedModel: embed,
+        getSelected: (mesh) =>
+          entries.find((e) => e.mesh === mesh)?.getSelected() ?? [],
+      });
+    },
+    [root, model, registry, settings],
+  );
+
+  // replaces a mesh's positions (recorded in the caller's transaction); applied
+  // through the change itself so only the vertices that differ are refreshed
+  const writePositions = useCallback(
+    (entry: PointsEntry, after: Float32Array) => {
+      const geom = entry.mesh.geometry;
+      const pos = geom.getAttribute("position") as THREE.BufferAttribute;
+      const change = createPositionChange({
+        pos,
+        before: pos.array as Float32Array,
+        after,
+        onApplied: (changed) => entry.refresh?.(changed),
+      });
+      if (!change) return;
+      change.redo();
+      history.record(change);
+    },
+    [history],
+  );
+
+  // Puts every mesh in the project's state (meshes it doesn't list go back to
+  // their loaded shape) as one undo step
+  const apply = useCallback(
+    (project: ProjectFile) => {
+      if (!root) return;
+      const saved = new Map(project.meshes.map((m) => [m.path, m]));
+      const entries = registry.entries();
+      const skipped = new Set(saved.keys());
+
+      history.transact("restore project", () => {
+        for (const [path, mesh] of meshesByPath(root)) {
+          const entry = entries.find((e) => e.mesh === mesh);
+          const base = getBasePositions(mesh.geometry);
+          if (!entry || !base) continue;
+
+          const after = base.slice();
+          const s = saved.get(path);
+          if (s && !projectPositions(mesh, s, after)) continue;
+          skipped.delete(path);
+
+          writePositions(entry, after);
+          entry.setSelected(
+            s?.selected.filter((i) => i < base.length / 3) ?? [],
+          );
+        }
+      });
+
+      update(pickToolSettings(project.settings));
+      setOffer(null);
+      setMessage(
+        skipped.size
+          ? `not restored (mesh missing or changed): ${[...skipped].join(", ")}`
+          : null,
+      );
+    },
+    [root, registry, history, update, writePositions],
+  );
+
+  useEffect(() => {
+    dirtyRef.current = true;
+  }, [settings]);
+
+  useEffect(
+    () =>
+      history.subscribe(() => {
+        dirtyRef.current = true;
+      }),
+    [history],
+  );
+
+  // a model finished loading: finish opening a project, or offer the autosave
+  useEffect(() => {
+    dirtyRef.current = false;
+    if (!root || !model) return;
+
+    const pending = pendingRef.current;
+    if (pending?.model.hash === model.hash) {
+      pendingRef.current = null;
+      apply(pending);
+      return;
+    }
+
+    let cancelled = false;
+    readingRef.current = true;
+    readAutosave(model.hash)
+      .then((saved) => {
+        if (!cancelled && saved?.meshes.length) setOffer(saved);
+      })
+      .catch((err) => console.error("Autosave read error:", err))
+      .finally(() => {
+        if (!cancelled) readingRef.current = false;
+      });
+    return () => {
+      cancelled = true;
+      readingRef.current = false;
+    };
+  }, [root, model, apply]);
+
+  // held back while the stored session is still on offer: writing now would
+  // replace it with the unedited state before the user has answered
+  const offerPending = !!offer && offer.model.hash === model?.hash;
+
+  useEffect(() => {
+    if (!root || !model || offerPending) return;
+    const id = window.setInterval(() => {
+      if (!dirtyRef.current || readingRef.current) return;
+      const project = capture();
+      if (!project) return;
+      dirtyRef.current = false;
+      writeAutosave(project).catch((err) =>
+        console.error("Autosave error:", err),
+      );
+    }, AUTOSAVE_INTERVAL_MS);
+    return () => window.clearInterval(id);
+  }, [root, model, capture, offerPending]);
+
+  // only while the model it was saved for is the one loaded
+  const shownOffer = root && offer?.model.hash === model?.hash ? offer : null;
+
+  const save = () => {
+    const project = capture(embedModel);
+    if (!project || !model) return;
+    const base = model.name.replace(/\.[^.]+$/, "") || "model";
+    saveBlob(
+      new Blob([JSON.stringify(project)], { type: "application/json" }),
+      `${base}.project.json`,
+    );
+  };
+
+  // The moved vertices only, for re-applying the edit to another export of the
+  // same asset
+  const exportDisplacement = () => {
+    if (!root || !model) return;
+    const meshes = captureDisplacement(root);
+    if (!meshes) {
+      setMessage("nothing to export: no vertex has moved");
+      return;
+    }
+    const base = model.name.replace(/\.[^.]+$/, "") || "model";
+    saveBlob(
+      new Blob([encodeDisplacement(meshes)], {
+        type: "application/octet-stream",
+      }),
+      `${base}.disp`,
+    );
+    setMessage(null);
+  };
+
+  const applyDisplacement = async (file: File) => {
+    if (!root) return;
+    try {
+      const pairs = matchDisplacement(
+        root,
+        decodeDisplacement(await file.arrayBuffer()),
+      );
+      const entries = registry.entries();
+      history.transact("apply displacement", () => {
+        for (const [d, mesh] of pairs) {
+          const entry = entries.find((e) => e.mesh === mesh);
+          const after = new Float32Array(
+            mesh.geometry.getAttribute("position").count * 3,
+          );
+          if (entry && displacedPositions(mesh, d, after))
+            writePositions(entry, after);
+        }
+      });
+      setMessage(null);
+    } catch (err) {
+      setMessage(`can't apply ${file.name}:\n${(err as Error).message}`);
+    }
+  };
+
+  const open = async (file: File) => {
+    try {
+      const project = parseProject(JSON.parse(await file.text()));
+      if (root && model?.hash === project.model.hash) {
+        apply(project);
+        return;
+      }
+
+      pendingRef.current = project;
+      if (project.model.data) {
+        setMessage(null);
+        openModel(project.model.name, fromBase64(project.model.data));
+      } else {
+        setMessage(`drop ${project.model.name} to finish opening the project`);
+      }
+    } catch (err) {
+      setMessage(`can't open ${file.name}: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="mt-2 flex flex-col gap-1">
+      <div className="flex gap-2 items-center">
+        <button
+          className="px-2 rounded bg-white/15 hover:bg-white/25 disabled:opacity-40"
+          type="button"
+          disabled={!root}
+          title="save edits, selections and tool settings to a project file"
+          onClick={save}
+        >
+          save project
+        </button>
+        <button
+          className="px-2 rounded bg-white/15 hover:bg-white/25"
+          type="button"
+          onClick={() => inputRef.current?.click()}
+        >
+          open project
+        </button>
+        <label
+          className="flex gap-1 items-center"
+          title="put the model itself in the project file, so it opens on its own"
+        >
+          <input
+            type="checkbox"
+            checked={embedModel}
+            onChange={(e) => setEmbedModel(e.target.checked)}
+          />
+          embed model
+        </label>
+        <input
+          ref={inputRef}
+          className="hidden"
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) open(file);
+          }}
+        />
+      </div>
+
+      <div className="flex gap-2 items-center">
+        <button
+          className="px-2 rounded bg-white/15 hover:bg-white/25 disabled:opacity-40"
+          type="button"
+          disabled={!root}
+          title="save how far each vertex moved from the loaded shape (for re-exports of the same model)"
+          onClick={exportDisplacement}
+        >
+          export displacement
+        </button>
+        <button
+          className="px-2 rounded bg-white/15 hover:bg-white/25 disabled:opacity-40"
+          type="button"
+          disabled={!root}
+          title="move the vertices by a displacement file (the meshes must have the same topology)"
+          onClick={() => displacementInputRef.current?.click()}
+        >
+          apply displacement
+        </button>
+        <input
+          ref={displacementInputRef}
+          className="hidden"
+          type="file"
+          accept=".disp"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) applyDisplacement(file);
+          }}
+        />
+      </div>
+
+      {shownOffer && (
+        <div className="flex gap-2 items-center">
+          <span className="flex-1 opacity-80">
+            autosaved session from{" "}
+            {new Date(shownOffer.savedAt).toLocaleString()}
+          </span>
+          <button
+            className="px-2 rounded bg-white/15 hover:bg-white/25"
+            type="button"
+            onClick={() => apply(shownOffer)}
+          >
+            restore
+          </button>
+          <button
+            className="px-2 rounded bg-white/15 hover:bg-white/25"
+            type="button"
+            onClick={() => {
+              setOffer(null);
+              deleteAutosave(shownOffer.model.hash).catch((err) =>
+                console.error("Autosave delete error:", err),
+              );
+            }}
+          >
+            discard
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <span className="block whitespace-pre-line text-amber-300">
+          {message}
+        </span>
+      )}
+    </div>
+  );
+}
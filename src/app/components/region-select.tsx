@@ -0,0 +1,404 @@
+"use client";
+
+import React, { useEffect, useRef } from "react";
+import { useThree } from "@react-three/fiber";
+import * as THREE from "three";
+import { useSelectionRegistry } from "../hooks/selection";
+import { useHistory } from "../hooks/history";
+import { useKeyHeld } from "../hooks/useKeyHeld";
+import { getWeldMap } from "../helpers/weld";
+import { useToolSettings } from "../hooks/tool-settings";
+import { captureDepth, isPointVisible } from "../helpers/occlusion";
+import {
+  combineSelection,
+  selectOpFromEvent,
+  type SelectOp,
+} from "../helpers/selection-ops";
+
+type RegionMode = "box" | "lasso" | "circle";
+type ScreenPoint = { x: number; y: number };
+
+type Drag = {
+  mode: RegionMode;
+  op: SelectOp;
+  // box: [start, current]; lasso: the outline; circle: the brush stroke
+  points: ScreenPoint[];
+};
+
+// Hold a key and drag to select a screen region:
+//   box (B), freehand lasso (F), circle brush (C, mouse wheel = brush size)
+// Shift adds to the selection, Ctrl subtracts, Shift+Ctrl intersects.
+export default function RegionSelect({
+  controlsRef,
+  overlayRef,
+  boxKey = "b",
+  lassoKey = "f",
+  circleKey = "c",
+}: {
+  controlsRef?: React.RefObject<{ enabled: boolean } | null>;
+  overlayRef: React.RefObject<HTMLDivElement | null>;
+  boxKey?: string;
+  lassoKey?: string;
+  circleKey?: string;
+}) {
+  const { gl, camera, size } = useThree();
+  const registry = useSelectionRegistry();
+  const history = useHistory();
+  const { settings, update } = useToolSettings();
+  const { xray, brushRadius } = settings;
+
+  const dragRef = useRef<Drag | null>(null);
+  const hoverRef = useRef<ScreenPoint | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const baseRectRef = useRef<DOMRect | null>(null);
+
+  const gHeld = useKeyHeld("g");
+  const boxHeld = useKeyHeld(boxKey);
+  const lassoHeld = useKeyHeld(lassoKey);
+  const circleHeld = useKeyHeld(circleKey);
+  const heldMode: RegionMode | null = circleHeld
+    ? "circle"
+    : lassoHeld
+      ? "lasso"
+      : boxHeld
+        ? "box"
+        : null;
+
+  // 2D canvas over the viewport for the region outline / brush
+  useEffect(() => {
+    const overlay = overlayRef.current;
+    if (!overlay) return;
+
+    const el = document.createElement("canvas");
+    el.style.position = "absolute";
+    el.style.inset = "0";
+    el.style.width = "100%";
+    el.style.height = "100%";
+    overlay.appendChild(el);
+
+    canvasRef.current = el;
+    return () => {
+      el.remove();
+      canvasRef.current = null;
+    };
+  }, [overlayRef]);
+
+  // the brush owns the mouse wheel (and the camera stays put) while C is held
+  useEffect(() => {
+    if (!circleHeld) return;
+
+    const setOrbit = (enabled: boolean) => {
+      if (controlsRef?.current) controlsRef.current.enabled = enabled;
+    };
+    setOrbit(false);
+
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const next = brushRadius * (e.deltaY > 0 ? 0.9 : 1.1);
+      update({ brushRadius: Math.min(Math.max(next, 2), 400) });
+    };
+
+    window.addEventListener("wheel", onWheel, {
+      passive: false,
+      capture: true,
+    });
+    return () => {
+      window.removeEventListener("wheel", onWheel, { capture: true });
+      if (!dragRef.current) setOrbit(true);
+    };
+  }, [circleHeld, brushRadius, update, controlsRef]);
+
+  useEffect(() => {
+    const canvasEl = gl.domElement;
+
+    const getRect = () =>
+      baseRectRef.current ??
+      overlayRef.current?.getBoundingClientRect() ??
+      canvasEl.getBoundingClientRect();
+
+    const getMouse = (ev: PointerEvent | MouseEvent): ScreenPoint => {
+      // overlay coordinates, since that's where the region is drawn
+      const r = getRect();
+      return { x: ev.clientX - r.left, y: ev.clientY - r.top };
+    };
+
+    const draw = () => {
+      const el = canvasRef.current;
+      if (!el) return;
+      const r = getRect();
+      const dpr = window.devicePixelRatio || 1;
+      if (el.width !== Math.round(r.width * dpr)) {
+        el.width = Math.round(r.width * dpr);
+      }
+      if (el.height !== Math.round(r.height * dpr)) {
+        el.height = Math.round(r.height * dpr);
+      }
+
+      const ctx = el.getContext("2d");
+      if (!ctx) return;
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, r.width, r.height);
+      ctx.strokeStyle = "rgba(255,255,255,0.9)";
+      ctx.fillStyle = "rgba(255,255,255,0.08)";
+      ctx.lineWidth = 1;
+
+      const drag = dragRef.current;
+      if (drag?.mode === "box" && drag.points.length === 2) {
+        const [a, b] = drag.points;
+        ctx.beginPath();
+        ctx.rect(
+          Math.min(a.x, b.x),
+          Math.min(a.y, b.y),
+          Math.abs(b.x - a.x),
+          Math.abs(b.y - a.y),
+        );
+        ctx.fill();
+        ctx.stroke();
+      } else if (drag?.mode === "lasso" && drag.points.length > 1) {
+        ctx.beginPath();
+        drag.points.forEach((p, k) =>
+          k ? ctx.lineTo(p.x, p.y) : ctx.moveTo(p.x, p.y),
+        );
+        ctx.closePath();
+        ctx.fill();
+        ctx.setLineDash([4, 3]);
+        ctx.stroke();
+        ctx.setLineDash([]);
+      } else if (drag?.mode === "circle") {
+        // painted area so far (union of the dabs)
+        ctx.beginPath();
+        for (const p of drag.points) {
+          ctx.moveTo(p.x + brushRadius, p.y);
+          ctx.arc(p.x, p.y, brushRadius, 0, Math.PI * 2);
+        }
+        ctx.fill();
+      }
+
+      // brush cursor
+      const hover = hoverRef.current;
+      if ((drag?.mode === "circle" || (!drag && circleHeld)) && hover) {
+        ctx.beginPath();
+        ctx.arc(hover.x, hover.y, brushRadius, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+    };
+
+    const onDown = (ev: PointerEvent) => {
+      if (gHeld || !heldMode) return;
+      if (ev.button !== 0) return;
+
+      // lock rect base to prevent drift if scroll/layout changes mid-drag
+      baseRectRef.current =
+        overlayRef.current?.getBoundingClientRect() ??
+        canvasEl.getBoundingClientRect();
+
+      const p = getMouse(ev);
+      dragRef.current = {
+        mode: heldMode,
+        op: selectOpFromEvent(ev),
+        points: heldMode === "box" ? [p, p] : [p],
+      };
+      hoverRef.current = p;
+      draw();
+
+      if (controlsRef?.current) controlsRef.current.enabled = false;
+      (ev.target as HTMLElement).setPointerCapture?.(ev.pointerId);
+    };
+
+    const onMove = (ev: PointerEvent) => {
+      const p = getMouse(ev);
+      hoverRef.current = p;
+
+      const drag = dragRef.current;
+      if (drag && !gHeld) {
+        if (drag.mode === "box") {
+          drag.points[1] = p;
+        } else {
+          // skip samples closer than a couple of pixels
+          const last = drag.points[drag.points.length - 1];
+          if (Math.hypot(p.x - last.x, p.y - last.y) >= 2) drag.points.push(p);
+        }
+      }
+      draw();
+    };
+
+    const finish = (apply: boolean) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+
+      const r = getRect();
+      dragRef.current = null;
+      baseRectRef.current = null;
+      draw();
+      if (controlsRef?.current && !circleHeld) {
+        controlsRef.current.enabled = true;
+      }
+      if (!apply) return;
+
+      const inside = regionTest(drag, brushRadius);
+      if (!inside) return; // degenerate region (e.g. a click with box/lasso)
+
+      const tmp = new THREE.Vector3();
+      const world = new THREE.Vector3();
+      const entries = registry.entries();
+
+      // visible-only: vertices behind any editable mesh are skipped
+      const depth = xray
+        ? null
+        : captureDepth(
+            gl,
+            camera,
+            entries.map((e) => e.mesh),
+          );
+
+      // all meshes' selection changes form one undo step
+      history.begin(`${drag.mode} select`);
+
+      for (const entry of entries) {
+        const geom = entry.points.geometry as THREE.BufferGeometry;
+        const pos = geom.getAttribute("position") as THREE.BufferAttribute;
+        if (!pos) continue;
+
+        // one test per logical vertex; seam twins share the canonical's position
+        const { canonical } = getWeldMap(entry.mesh.geometry);
+
+        const picked: number[] = [];
+        for (let i = 0; i < pos.count; i++) {
+          if (canonical[i] !== i) continue;
+          world.set(pos.getX(i), pos.getY(i), pos.getZ(i));
+          world.applyMatrix4(entry.points.matrixWorld); // convert to world
+          tmp.copy(world).project(camera);
+          if (tmp.z < -1 || tmp.z > 1) continue; // behind the camera
+
+          const sx = (tmp.x * 0.5 + 0.5) * r.width;
+          const sy = (-tmp.y * 0.5 + 0.5) * r.height;
+
+          if (!inside(sx, sy)) continue;
+          if (depth && !isPointVisible(depth, world)) continue;
+          picked.push(i);
+        }
+
+        entry.setSelected(
+          combineSelection(entry.getSelected(), picked, drag.op),
+        );
+      }
+
+      history.commit();
+    };
+
+    const onUp = () => finish(true);
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && dragRef.current) finish(false);
+    };
+
+    const onLeave = () => {
+      hoverRef.current = null;
+      draw();
+    };
+
+    draw();
+
+    canvasEl.addEventListener("pointerdown", onDown);
+    canvasEl.addEventListener("pointermove", onMove);
+    canvasEl.addEventListener("pointerleave", onLeave);
+    window.addEventListener("pointerup", onUp);
+    window.addEventListener("keydown", onKeyDown);
+
+    return () => {
+      canvasEl.removeEventListener("pointerdown", onDown);
+      canvasEl.removeEventListener("pointermove", onMove);
+      canvasEl.removeEventListener("pointerleave", onLeave);
+      window.removeEventListener("pointerup", onUp);
+      window.removeEventListener("keydown", onKeyDown);
+    };
+  }, [
+    gl,
+    camera,
+    size.width,
+    size.height,
+    registry,
+    history,
+    controlsRef,
+    overlayRef,
+    xray,
+    gHeld,
+    heldMode,
+    circleHeld,
+    brushRadius,
+  ]);
+
+  // ✅ nothing DOM is returned inside Canvas
+  return null;
+}
+
+// Screen-space membership test for the dragged region, or null if it's empty
+function regionTest(
+  drag: Drag,
+  brushRadius: number,
+): ((x: number, y: number) => boolean) | null {
+  const pts = drag.points;
+
+  if (drag.mode === "box") {
+    const [a, b] = pts;
+    const left = Math.min(a.x, b.x);
+    const right = Math.max(a.x, b.x);
+    const top = Math.min(a.y, b.y);
+    const bottom = Math.max(a.y, b.y);
+    // drop zero-sized drags
+    if (right - left < 2 || bottom - top < 2) return null;
+    return (x, y) => x >= left && x <= right && y >= top && y <= bottom;
+  }
+
+  if (drag.mode === "lasso") {
+    if (pts.length < 3) return null;
+    return (x, y) => pointInPolygon(pts, x, y);
+  }
+
+  // circle: within the brush radius of the stroke
+  const r2 = brushRadius * brushRadius;
+  return (x, y) => {
+    if (pts.length === 1) {
+      return (x - pts[0].x) ** 2 + (y - pts[0].y) ** 2 <= r2;
+    }
+    for (let k = 1; k < pts.length; k++) {
+      if (segmentDistanceSq(pts[k - 1], pts[k], x, y) <= r2) return true;
+    }
+    return false;
+  };
+}
+
+// even-odd rule
+function pointInPolygon(poly: ScreenPoint[], x: number, y: number) {
+  let inside = false;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const a = poly[i];
+    const b = poly[j];
+    if (
+      a.y > y !== b.y > y &&
+      x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function segmentDistanceSq(
+  a: ScreenPoint,
+  b: ScreenPoint,
+  x: number,
+  y: number,
+) {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len2 = dx * dx + dy * dy;
+  const t =
+    len2 > 0
+      ? Math.min(Math.max(((x - a.x) * dx + (y - a.y) * dy) / len2, 0), 1)
+      : 0;
+  const px = a.x + dx * t - x;
+  const py = a.y + dy * t - y;
+  return px * px + py * py;
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import { useSelectionRegistry } from "../hooks/selection";
+import { useHistory } from "../hooks/history";
+import { useToolSettings } from "../hooks/tool-settings";
+import type { RelaxMethod } from "../helpers/relax";
+
+// HUD command that evens out the selected vertices on every mesh (one undo step)
+export default function RelaxPanel() {
+  const registry = useSelectionRegistry();
+  const history = useHistory();
+  const { settings, update } = useToolSettings();
+  const { relaxIterations, relaxMethod } = settings;
+
+  const relax = () => {
+    history.transact("relax", () => {
+      for (const entry of registry.entries()) {
+        entry.relaxSelected?.({
+          iterations: relaxIterations,
+          method: relaxMethod,
+        });
+      }
+    });
+  };
+
+  return (
+    <div className="mt-2 flex gap-1 items-center">
+      <button
+        className="px-2 rounded bg-white/15 hover:bg-white/25"
+        title="smooth the selected vertices (boundary and unselected vertices stay fixed)"
+        type="button"
+        onClick={relax}
+      >
+        relax
+      </button>
+      <input
+        className="w-12 rounded bg-black/30 text-right"
+        type="number"
+        min={1}
+        max={200}
+        title="iterations"
+        value={relaxIterations}
+        onChange={(e) => {
+          const n = parseInt(e.target.value, 10);
+          if (n > 0) update({ relaxIterations: Math.min(n, 200) });
+        }}
+      />
+      <select
+        className="flex-1 rounded bg-black/30"
+        value={relaxMethod}
+        onChange={(e) => update({ relaxMethod: e.target.value as RelaxMethod })}
+      >
+        <option value="taubin">taubin (keeps volume)</option>
+        <option value="laplacian">laplacian</option>
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useThree } from "@react-three/fiber";
+import * as THREE from "three";
+
+import { useSelectionRegistry, type PointsEntry } from "../hooks/selection";
+import { useToolSettings } from "../hooks/tool-settings";
+import { isEditableTarget } from "../helpers/keyboard";
+import { computeDeltaLocal, worldRadiusToLocal } from "../helpers/vertex-edit";
+import {
+  SCULPT_BRUSHES,
+  applyDab,
+  applyGrab,
+  brushFootprint,
+  type BrushFootprint,
+} from "../helpers/sculpt";
+
+type Stroke = {
+  entry: PointsEntry;
+  // what the brush edits in place (posed for skinned meshes)
+  positions: Float32Array;
+  // grab only: positions, footprint and drag plane at stroke start
+  start: Float32Array | null;
+  footprint: BrushFootprint | null;
+  plane: THREE.Plane;
+  anchor: THREE.Vector3;
+  // world point of the previous dab (for spacing)
+  lastDab: THREE.Vector3 | null;
+};
+
+// Sculpt mode (Tab): drag on a mesh to stroke the current brush.
+//   1-5 pick grab / smooth / inflate / flatten / pinch, [ and ] resize the brush,
+//   Ctrl inverts the brush while held.
+// Dragging off the mesh still orbits the camera.
+export default function SculptBrush({
+  controlsRef,
+  toggleKey = "Tab",
+}: {
+  controlsRef?: React.RefObject<{ enabled: boolean } | null>;
+  toggleKey?: string;
+}) {
+  const { gl, camera } = useThree();
+  const registry = useSelectionRegistry();
+  const { settings, update } = useToolSettings();
+  const {
+    sculptEnabled,
+    sculptBrush,
+    sculptRadius,
+    sculptStrength,
+    sculptFalloff,
+  } = settings;
+
+  const strokeRef = useRef<Stroke | null>(null);
+  const cursorRef = useRef<THREE.Mesh | null>(null);
+
+  // --- hotkeys
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target)) return;
+      if (e.key === toggleKey && !e.shiftKey) {
+        e.preventDefault();
+        update({ sculptEnabled: !sculptEnabled });
+        return;
+      }
+      if (!sculptEnabled || e.ctrlKey || e.metaKey || e.altKey) return;
+
+      const n = parseInt(e.key, 10);
+      if (n >= 1 && n <= SCULPT_BRUSHES.length) {
+        update({ sculptBrush: SCULPT_BRUSHES[n - 1] });
+      } else if (e.key === "[" || e.key === "]") {
+        const next = sculptRadius * (e.key === "]" ? 1.1 : 0.9);
+        update({ sculptRadius: Math.min(Math.max(next, 0.005), 2) });
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [toggleKey, sculptEnabled, sculptRadius, update]);
+
+  // --- strokes
+  useEffect(() => {
+    if (!sculptEnabled) return;
+
+    const canvasEl = gl.domElement;
+    const raycaster = new THREE.Raycaster();
+    const ndc = new THREE.Vector2();
+    const center = new THREE.Vector3();
+    const normal = new THREE.Vector3();
+    const worldNormal = new THREE.Vector3();
+    const point = new THREE.Vector3();
+    const delta = new THREE.Vector3();
+
+    const setOrbit = (enabled: boolean) => {
+      if (controlsRef?.current) controlsRef.current.enabled = enabled;
+    };
+
+    const setRay = (ev: PointerEvent) => {
+      const r = canvasEl.getBoundingClientRect();
+      ndc.set(
+        ((ev.clientX - r.left) / r.width) * 2 - 1,
+        -((ev.clientY - r.top) / r.height) * 2 + 1,
+      );
+      raycaster.setFromCamera(ndc, camera);
+    };
+
+    // nearest surface under the ray. mesh.raycast is disabled by
+    // SelectableVertices, so call the class's own method (posed for skinned meshes)
+    const pick = (entries: PointsEntry[]) => {
+      let best: { entry: PointsEntry; hit: THREE.Intersection } | null = null;
+      for (const entry of entries) {
+        const hits: THREE.Intersection[] = [];
+        const proto = Object.getPrototypeOf(entry.mesh) as THREE.Mesh;
+        proto.raycast.call(entry.mesh, raycaster, hits);
+        for (const hit of hits) {
+          if (!hit.face) continue;
+          if (!best || hit.distance < best.hit.distance) best = { entry, hit };
+        }
+      }
+      return best;
+    };
+
+    const showCursor = (hit: THREE.Intersection | null, invert: boolean) => {
+      const m = cursorRef.current;
+      if (!m) return;
+      m.visible = !!hit?.face;
+      if (!hit?.face) return;
+
+      worldNormal
+        .copy(hit.face.normal)
+        .transformDirection(hit.object.matrixWorld);
+      m.position.copy(hit.point);
+      m.quaternion.setFromUnitVectors(_ringAxis, worldNormal); // lie on the surface
+      m.scale.setScalar(sculptRadius);
+      (m.material as THREE.MeshBasicMaterial).color.set(
+        invert ? "#4dd2ff" : "#ffffff",
+      );
+    };
+
+    // one stamp at the cursor (or the grab drag so far)
+    const dab = (stroke: Stroke, ev: PointerEvent) => {
+      const { entry, positions } = stroke;
+      const mesh = entry.mesh;
+      const geom = mesh.geometry as THREE.BufferGeometry;
+      mesh.updateWorldMatrix(true, false);
+
+      if (sculptBrush === "grab") {
+        if (!stroke.start || !stroke.footprint) return;
+        if (!raycaster.ray.intersectPlane(stroke.plane, point)) return;
+        delta.copy(computeDeltaLocal(mesh, point.sub(stroke.anchor)));
+        applyGrab(geom, positions, stroke.start, stroke.footprint, delta);
+        entry.updateStroke?.(stroke.footprint.indices);
+        return;
+      }
+
+      const hit = pick([entry])?.hit;
+      if (!hit?.face) return;
+
+      // space dabs out so stroke speed doesn't change the strength much
+      if (
+        stroke.lastDab &&
+        stroke.lastDab.distanceTo(hit.point) < sculptRadius * 0.15
+      ) {
+        return;
+      }
+      stroke.lastDab = (stroke.lastDab ?? new THREE.Vector3()).copy(hit.point);
+
+      const radius = worldRadiusToLocal(mesh, sculptRadius);
+      mesh.worldToLocal(center.copy(hit.point));
+      normal.copy(hit.face.normal);
+      const footprint = brushFootprint(
+        geom,
+        positions,
+        center,
+        radius,
+        sculptFalloff,
+      );
+      applyDab({
+        brush: sculptBrush,
+        geom,
+        positions,
+        footprint,
+        center,
+        normal,
+        radius,
+        strength: sculptStrength,
+        invert: ev.ctrlKey || ev.metaKey,
+      });
+      entry.updateStroke?.(footprint.indices);
+    };
+
+    const onDown = (ev: PointerEvent) => {
+      if (ev.button !== 0 || strokeRef.current) return;
+      setRay(ev);
+      const picked = pick(registry.entries());
+      if (!picked) return; // off the mesh: orbit as usual
+
+      const { entry, hit } = picked;
+      const positions = entry.beginStroke?.();
+      if (!positions) return;
+      const stroke: Stroke = {
+        entry,
+        positions,
+        start: null,
+        footprint: null,
+        plane: new THREE.Plane(),
+        anchor: hit.point.clone(),
+        lastDab: null,
+      };
+
+      if (sculptBrush === "grab") {
+        const mesh = entry.mesh;
+        mesh.updateWorldMatrix(true, false);
+        mesh.worldToLocal(center.copy(hit.point));
+        stroke.start = positions.slice();
+        stroke.footprint = brushFootprint(
+          mesh.geometry,
+          positions,
+          center,
+          worldRadiusToLocal(mesh, sculptRadius),
+          sculptFalloff,
+        );
+        // drag parallel to the screen through the grabbed point
+        stroke.plane.setFromNormalAndCoplanarPoint(
+          camera.getWorldDirection(worldNormal),
+          hit.point,
+        );
+      }
+
+      strokeRef.current = stroke;
+      setOrbit(false);
+      canvasEl.setPointerCapture?.(ev.pointerId);
+      ev.stopPropagation();
+
+      dab(stroke, ev);
+    };
+
+    const onMove = (ev: PointerEvent) => {
+      setRay(ev);
+      const invert = ev.ctrlKey || ev.metaKey;
+      const stroke = strokeRef.current;
+      if (!stroke) {
+        showCursor(pick(registry.entries())?.hit ?? null, invert);
+        return;
+      }
+      dab(stroke, ev);
+      showCursor(pick([stroke.entry])?.hit ?? null, invert);
+    };
+
+    const onUp = () => {
+      const stroke = strokeRef.current;
+      if (!stroke) return;
+      strokeRef.current = null;
+      stroke.entry.endStroke?.();
+      setOrbit(true);
+    };
+
+    const onLeave = () => showCursor(null, false);
+
+    // capture phase: decide before OrbitControls whether this drag is a stroke
+    canvasEl.addEventListener("pointerdown", onDown, { capture: true });
+    canvasEl.addEventListener("pointermove", onMove);
+    canvasEl.addEventListener("pointerleave", onLeave);
+    window.addEventListener("pointerup", onUp);
+
+    return () => {
+      canvasEl.removeEventListener("pointerdown", onDown, { capture: true });
+      canvasEl.removeEventListener("pointermove", onMove);
+      canvasEl.removeEventListener("pointerleave", onLeave);
+      window.removeEventListener("pointerup", onUp);
+      onUp();
+      showCursor(null, false);
+    };
+  }, [
+    sculptEnabled,
+    sculptBrush,
+    sculptRadius,
+    sculptStrength,
+    sculptFalloff,
+    gl,
+    camera,
+    registry,
+    controlsRef,
+  ]);
+
+  return (
+    <mesh
+      ref={cursorRef}
+      raycast={() => null} // don’t interfere with clicking
+      renderOrder={10}
+      visible={false}
+      onUpdate={(o) => o.layers.set(1)} // layer 1 (raycaster is layer 0)
+    >
+      <ringGeometry args={[0.96, 1.0, 64]} />
+      <meshBasicMaterial
+        color="#ffffff"
+        transparent
+        opacity={0.6}
+        depthTest={false}
+        side={THREE.DoubleSide}
+      />
+    </mesh>
+  );
+}
+
+// RingGeometry is built in the XY plane, facing +Z
+const _ringAxis = new THREE.Vector3(0, 0, 1);
@@ -0,0 +1,105 @@
+"use client";
+
+import { useToolSettings } from "../hooks/tool-settings";
+import { SCULPT_BRUSHES } from "../helpers/sculpt";
+import type { Falloff } from "../helpers/vertex-edit";
+
+// HUD options for the sculpt brushes
+export default function SculptPanel() {
+  const { settings, update } = useToolSettings();
+
+  return (
+    <div className="mt-2 flex flex-col gap-1">
+      <label
+        className="flex gap-2 items-center"
+        title="drag on the mesh to sculpt (tab)"
+      >
+        <input
+          type="checkbox"
+          checked={settings.sculptEnabled}
+          onChange={(e) => update({ sculptEnabled: e.target.checked })}
+        />
+        sculpt mode
+      </label>
+
+      {settings.sculptEnabled && (
+        <>
+          <div className="flex flex-wrap gap-1">
+            {SCULPT_BRUSHES.map((brush, k) => (
+              <button
+                key={brush}
+                className={`px-2 rounded ${
+                  settings.sculptBrush === brush
+                    ? "bg-white/40"
+                    : "bg-white/15 hover:bg-white/25"
+                }`}
+                title={`${brush} (${k + 1})`}
+                type="button"
+                onClick={() => update({ sculptBrush: brush })}
+              >
+                {brush}
+              </button>
+            ))}
+          </div>
+
+          <label
+            className="flex gap-2 items-center"
+            title="brush radius in world units ([ and ])"
+          >
+            <span className="w-14 opacity-80">radius</span>
+            <input
+              className="flex-1"
+              type="range"
+              min={0.005}
+              max={2}
+              step={0.005}
+              value={settings.sculptRadius}
+              onChange={(e) =>
+                update({ sculptRadius: parseFloat(e.target.value) })
+              }
+            />
+            <span className="w-10 text-right tabular-nums">
+              {settings.sculptRadius.toFixed(2)}
+            </span>
+          </label>
+
+          <label
+            className="flex gap-2 items-center"
+            title="hold ctrl while stroking to invert the brush"
+          >
+            <span className="w-14 opacity-80">strength</span>
+            <input
+              className="flex-1"
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={settings.sculptStrength}
+              onChange={(e) =>
+                update({ sculptStrength: parseFloat(e.target.value) })
+              }
+            />
+            <span className="w-10 text-right tabular-nums">
+              {settings.sculptStrength.toFixed(2)}
+            </span>
+          </label>
+
+          <label className="flex gap-2 items-center">
+            <span className="w-14 opacity-80">falloff</span>
+            <select
+              className="flex-1 rounded bg-black/30"
+              value={settings.sculptFalloff}
+              onChange={(e) =>
+                update({ sculptFalloff: e.target.value as Falloff })
+              }
+            >
+              <option value="smooth">smooth</option>
+              <option value="gaussian">gaussian</option>
+              <option value="sharp">sharp</option>
+            </select>
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,55 @@
 "use client";
 
 import * as THREE from "three";
-import { useEffect, useMemo, useRef, useState } from "react";
-import { ThreeEvent, useFrame } from "@react-three/fiber";
-
-import { useSelectionRegistry } from "../hooks/selection";
 import {
-  computeDeltaLocal,
-  applyNonProportionalMove,
-  applyProportionalMove,
-} from "../helpers/vertex-edit";
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type Dispatch,
+  type SetStateAction,
+} from "react";
+import { ThreeEvent, useFrame, useThree } from "@react-three/fiber";
+
+import { useSelectionRegistry, type PointsEntry } from "../hooks/selection";
+import { createPositionChange, useHistory } from "../hooks/history";
+import type { PivotTransform } from "../helpers/vertex-edit";
+import {
+  growBounds,
+  markMoved,
+  moveDistances,
+  moveVertices,
+  moveWeightsInput,
+  type MoveOptions,
+} from "../helpers/deform";
+import {
+  computeMoveWeights,
+  selectionWeights,
+  type MoveWeights,
+  type WeightsInput,
+} from "../helpers/move-weights";
+import {
+  computeMoveWeightsHere,
+  requestMoveWeights,
+  runsOffThread,
+} from "../helpers/weights-worker";
+import { expandWelded, getWeldMap, syncTwins } from "../helpers/weld";
+import {
+  applyPosedEdit,
+  captureSkinPose,
+  computePosedPositions,
+  isSkinnedMesh,
+  updateSkinnedBounds,
+  type SkinPose,
+} from "../helpers/skinning";
+
+import { depthSnapshotFor, isPointVisible } from "../helpers/occlusion";
+import { useToolSettings } from "../hooks/tool-settings";
+import { combineSelection, selectLinked } from "../helpers/selection-ops";
+import { relaxVertices } from "../helpers/relax";
+import { getMirrorMap, mirrorEdit, type MirrorAxis } from "../helpers/mirror";
+import { updateNormals } from "../helpers/normals";
 
 import { useKeyHeld } from "../hooks/useKeyHeld";
 
@@ -36,13 +76,34 @@ export function SelectableVertices({
   // Drag snapshot for proportional editing
   const dragStartPositionsRef = useRef<Float32Array | null>(null);
   const dragPivotLocalRef = useRef(new THREE.Vector3());
-  const dragOptsRef = useRef<{
-    proportionalEnabled: boolean;
-    radiusWorld: number;
-    falloff: "smooth" | "gaussian" | "sharp";
+  const dragOptsRef = useRef<
+    (MoveOptions & { affectSelection: boolean }) | null
+  >(null);
+  // geodesic distances from drag start ("connected" proportional mode only)
+  const dragDistancesRef = useRef<Float32Array | null>(null);
+  // selection expanded to seam twins at drag start (what actually moves)
+  const dragSelectedRef = useRef<number[] | null>(null);
+  // proportional weights of the drag; `pending` (their input) while the worker
+  // computes them, with only the selection moving meanwhile
+  const dragWeightsRef = useRef<{
+    weights: MoveWeights;
+    pending: WeightsInput | null;
+  } | null>(null);
+  // the drag's latest update, replayed when the worker's weights arrive
+  const dragLastMoveRef = useRef<Parameters<
+    PointsEntry["moveSelected"]
+  > | null>(null);
+  // vertices the latest update's mirroring wrote, put back before the next one
+  const dragMirroredRef = useRef<number[] | null>(null);
+  // skinned meshes: pose at drag start + scratch buffer the tools write posed positions into
+  const dragSkinRef = useRef<{
+    pose: SkinPose;
+    scratch: THREE.BufferAttribute;
   } | null>(null);
 
   const gHeld = useKeyHeld("g");
+  const hHeld = useKeyHeld("h"); // H + click drops an influence point instead
+  const lHeld = useKeyHeld("l"); // L + click picks the vertex's whole island
 
   useEffect(() => {
     selectedRef.current = selectedIndices;
@@ -62,6 +123,40 @@ export function SelectableVertices({
     return src;
   }, [mesh, makeNonIndexed]);
 
+  // Skinned meshes are drawn through the skeleton, so their points get a posed
+  // copy of the positions instead (picking, box select and pivots then match
+  // what's on screen). Everything else shares the mesh geometry.
+  const skinned = isSkinnedMesh(mesh);
+  const pointsGeometry = useMemo(() => {
+    if (!isSkinnedMesh(mesh)) return editableGeometry;
+    const g = new THREE.BufferGeometry();
+    g.setAttribute(
+      "position",
+      new THREE.BufferAttribute(computePosedPositions(mesh), 3),
+    );
+    g.computeBoundingSphere();
+    return g;
+  }, [mesh, editableGeometry]);
+
+  useEffect(() => {
+    if (pointsGeometry === editableGeometry) return;
+    return () => pointsGeometry.dispose();
+  }, [pointsGeometry, editableGeometry]);
+
+  // re-skins the points after positions or shape-key weights changed
+  const posedKeyRef = useRef("");
+  const syncPosed = useCallback(() => {
+    if (!isSkinnedMesh(mesh) || pointsGeometry === editableGeometry) return;
+    const attr = pointsGeometry.getAttribute(
+      "position",
+    ) as THREE.BufferAttribute;
+    computePosedPositions(mesh, attr.array as Float32Array);
+    attr.needsUpdate = true;
+    pointsGeometry.computeBoundingSphere();
+    updateSkinnedBounds(mesh, attr.array as Float32Array);
+    posedKeyRef.current = posedKey(mesh);
+  }, [mesh, pointsGeometry, editableGeometry]);
+
   // 2) Magenta points using the same geometry reference
   const pointsObj = useMemo(() => {
     const mat = new THREE.PointsMaterial({
@@ -74,11 +169,11 @@ export function SelectableVertices({
     });
     mat.toneMapped = false;
 
-    const pts = new THREE.Points(editableGeometry, mat);
+    const pts = new THREE.Points(pointsGeometry, mat);
     pts.frustumCulled = false;
     pts.matrixAutoUpdate = true; // we set TRS, not raw matrix
     return pts;
-  }, [editableGeometry, pointSize]);
+  }, [pointsGeometry, pointSize]);
 
   // Dispose the PointsMaterial we create manually
   useEffect(() => {
@@ -104,22 +199,154 @@ export function SelectableVertices({
     const pts = pointsRef.current;
     if (!pts) return;
     syncToTargetInParentSpace(pts, mesh);
+    if (!skinned) {
+      syncMorphInfluences(pts, mesh);
+    } else if (posedKey(mesh) !== posedKeyRef.current) {
+      // e.g. shape-key sliders, undo
+      syncPosed();
+      setPosVersion((v) => v + 1);
+    }
   });
 
   const registry = useSelectionRegistry();
+  const history = useHistory();
+  const { gl, camera } = useThree();
+  const { xray, sculptEnabled, mirrorAxis } = useToolSettings().settings;
+
+  // read by the registered edit functions without re-registering them
+  const mirrorAxisRef = useRef<MirrorAxis | null>(null);
+  useEffect(() => {
+    mirrorAxisRef.current = mirrorAxis;
+    // find the pairs now rather than on the first edit
+    if (mirrorAxis) getMirrorMap(mesh.geometry, mirrorAxis);
+  }, [mirrorAxis, mesh]);
+
+  // Selection updates go through here so they land in the undo history.
+  // selectedRef is updated eagerly so a tool reading it right after sees the new value.
+  // Selections hold logical vertices only: seam twins collapse to their canonical index.
+  const commitSelection = useCallback<Dispatch<SetStateAction<number[]>>>(
+    (action) => {
+      const prev = selectedRef.current;
+      const raw = typeof action === "function" ? action(prev) : action;
+      const next = toCanonical(editableGeometry, raw);
+      if (sameIndices(prev, next)) return;
+
+      const apply = (value: number[]) => {
+        selectedRef.current = value;
+        setSelectedIndices(value);
+      };
+
+      history.record(
+        {
+          undo: () => apply(prev),
+          redo: () => apply(next),
+          bytes: (prev.length + next.length) * 8,
+        },
+        "select",
+      );
+      apply(next);
+    },
+    [history, editableGeometry],
+  );
 
   // 5) register in selection registry + implement deformation
   useEffect(() => {
     if (!pointsRef.current) return;
 
-    const unregister = registry.register({
+    const refresh = (changed: ArrayLike<number> | null = null) => {
+      const geom = mesh.geometry as THREE.BufferGeometry;
+      // exact, as they may have shrunk
+      geom.computeBoundingBox();
+      geom.computeBoundingSphere();
+      updateNormals(geom, changed);
+      syncPosed();
+      setPosVersion((v) => v + 1);
+    };
+
+    // symmetric editing: the other side follows the edit since `start`
+    // (only `moved` differ from it, when known); returns the vertices written
+    const applyMirror = (
+      pos: THREE.BufferAttribute,
+      start: Float32Array,
+      moved: ArrayLike<number> | null = null,
+    ) => {
+      const axis = mirrorAxisRef.current;
+      if (!axis) return null;
+      return mirrorEdit({
+        geom: mesh.geometry,
+        axis,
+        start,
+        positions: pos.array as Float32Array,
+        moved,
+      });
+    };
+
+    // ends a drag or stroke: record it as a sparse position diff
+    // (joins the caller's transaction, if any)
+    const finishEdit = (label: string) => {
+      const geom = mesh.geometry as THREE.BufferGeometry;
+      const pos = geom.getAttribute("position") as THREE.BufferAttribute;
+      const start = dragStartPositionsRef.current;
+      // grown during the edit; exact (and possibly smaller) again now
+      geom.computeBoundingBox();
+      geom.computeBoundingSphere();
+      if (pos && start) {
+        const change = createPositionChange({
+          pos,
+          before: start,
+          after: pos.array as Float32Array,
+          onApplied: refresh,
+        });
+        if (change) history.record(change, label);
+      }
+
+      dragStartPositionsRef.current = null;
+      dragOptsRef.current = null;
+      dragDistancesRef.current = null;
+      dragSelectedRef.current = null;
+      dragSkinRef.current = null;
+      dragWeightsRef.current = null;
+      dragLastMoveRef.current = null;
+      dragMirroredRef.current = null;
+    };
+
+    // strokes / commands edit these positions in place (posed for skinned meshes)
+    const beginStroke = () => {
+      const geom = mesh.geometry as THREE.BufferGeometry;
+      const pos = geom.getAttribute("position") as THREE.BufferAttribute;
+      dragStartPositionsRef.current = (pos.array as Float32Array).slice();
+      dragSkinRef.current = isSkinnedMesh(mesh) ? startSkinDrag(mesh) : null;
+      return (dragSkinRef.current?.scratch.array ?? pos.array) as Float32Array;
+    };
+
+    const updateStroke = (edited: number[] | null = null) => {
+      const geom = mesh.geometry as THREE.BufferGeometry;
+      const pos = geom.getAttribute("position") as THREE.BufferAttribute;
+      const start = dragStartPositionsRef.current;
+      const skin = dragSkinRef.current;
+      const dabbed = edited && expandWelded(getWeldMap(geom), edited);
+      if (skin && start)
+        applyPosedEdit(skin.pose, start, skin.scratch.array, pos, dabbed);
+      const mirrored = start ? applyMirror(pos, start, dabbed) : null;
+
+      const changed = dabbed && mirrored ? [...dabbed, ...mirrored] : dabbed;
+      markMoved(pos, changed);
+      growBounds(geom, changed);
+      updateNormals(geom, changed);
+      syncPosed();
+      setPosVersion((v) => v + 1);
+    };
+
+    const entry: PointsEntry = {
       id: mesh.uuid,
       points: pointsRef.current,
-      setSelected: setSelectedIndices,
+      mesh,
+      setSelected: commitSelection,
       getSelected: () => selectedRef.current,
-      clearSelection: () => setSelectedIndices([]),
+      clearSelection: () => commitSelection([]),
+      refresh,
 
-      moveSelected: (deltaWorld: THREE.Vector3) => {
+      moveSelected: (transform: PivotTransform, snap) => {
         const geom = mesh.geometry as THREE.BufferGeometry;
         const pos = geom.getAttribute("position") as THREE.BufferAttribute;
         if (!pos) return;
@@ -127,35 +354,79 @@ export function SelectableVertices({
         let start = dragStartPositionsRef.current;
         const opts = dragOptsRef.current;
 
-        // Always interpret deltaWorld as "delta from drag start".
+        // Always interpret the transform as "change since drag start".
         // Ensure we have a snapshot even if beginMove() didn't run (e.g. missed drag start).
         if (!start) {
           start = (pos.array as Float32Array).slice();
           dragStartPositionsRef.current = start;
         }
 
-        const deltaLocal = computeDeltaLocal(mesh, deltaWorld);
-        // Non-proportional: only move selected vertices, based on the drag-start snapshot.
-        if (!opts || !opts.proportionalEnabled) {
-          applyNonProportionalMove(pos, start, selectedRef.current, deltaLocal);
-        } else {
-          // world->local scale approximation so radius feels consistent in world units
-          applyProportionalMove({
-            mesh,
-            pos,
-            start,
-            selected: selectedRef.current,
-            pivotLocal: dragPivotLocalRef.current,
-            radiusWorld: opts.radiusWorld,
-            falloff: opts.falloff,
-            deltaLocal,
-          });
+        if (!dragSelectedRef.current) {
+          dragSelectedRef.current = expandWelded(
+            getWeldMap(geom),
+            selectedRef.current,
+          );
+        }
+        if (isSkinnedMesh(mesh) && !dragSkinRef.current) {
+          dragSkinRef.current = startSkinDrag(mesh);
         }
 
-        pos.needsUpdate = true;
-        geom.computeBoundingBox();
-        geom.computeBoundingSphere();
-        geom.computeVertexNormals();
+        // skinned: run the tools on the posed positions, then map back to bind pose
+        const skin = dragSkinRef.current;
+        const target = skin ? skin.scratch : pos;
+        const from = skin ? skin.pose.posed : start;
+        if (skin) (skin.scratch.array as Float32Array).set(from);
+
+        // mirroring wrote the other side last time (and may switch sides
+        // mid-drag), so those vertices start over from the snapshot
+        const before = dragMirroredRef.current ?? [];
+        const arr = pos.array as Float32Array;
+        for (const i of before) {
+          arr[i * 3] = start[i * 3];
+          arr[i * 3 + 1] = start[i * 3 + 1];
+          arr[i * 3 + 2] = start[i * 3 + 2];
+        }
+
+        dragLastMoveRef.current = [transform, snap];
+        const selected =
+          opts && !opts.affectSelection ? [] : dragSelectedRef.current;
+        const moved = moveVertices({
+          mesh,
+          target,
+          from,
+          selected,
+          pivotLocal: dragPivotLocalRef.current,
+          transform,
+          opts,
+          distances: dragDistancesRef.current,
+          weights: dragWeightsRef.current?.weights,
+        });
+
+        // surface snapping: each moved (logical) vertex is projected on its own
+        if (snap?.project && selected.length) {
+          const arr = target.array as Float32Array;
+          const logical =
+            opts && !opts.affectSelection ? [] : selectedRef.current;
+          for (const i of logical) {
+            _snapV.fromArray(arr, i * 3).applyMatrix4(mesh.matrixWorld);
+            if (snap.project(_snapV))
+              mesh.worldToLocal(_snapV).toArray(arr, i * 3);
+          }
+          syncTwins(getWeldMap(geom), arr, logical);
+        }
+        if (skin)
+          applyPosedEdit(skin.pose, start, skin.scratch.array, pos, moved);
+        const mirrored = applyMirror(pos, start, moved);
+        dragMirroredRef.current = mirrored;
+
+        const changed =
+          before.length || mirrored
+            ? [...before, ...Array.from(moved), ...(mirrored ?? [])]
+            : moved;
+        markMoved(pos, changed);
+        growBounds(geom, changed);
+        updateNormals(geom, changed);
+        syncPosed();
 
         setPosVersion((v) => v + 1);
       },
@@ -164,6 +435,8 @@ export function SelectableVertices({
         proportionalEnabled,
         proportionalRadiusWorld,
         falloff,
+        proportionalMode = "euclidean",
+        affectSelection = true,
       }) => {
         const geom = mesh.geometry as THREE.BufferGeometry;
         const pos = geom.getAttribute("position") as THREE.BufferAttribute;
@@ -171,6 +444,11 @@ export function SelectableVertices({
 
         // snapshot starting positions
         dragStartPositionsRef.current = (pos.array as Float32Array).slice();
+        dragSelectedRef.current = expandWelded(
+          getWeldMap(geom),
+          selectedRef.current,
+        );
+        dragSkinRef.current = isSkinnedMesh(mesh) ? startSkinDrag(mesh) : null;
 
         // pivot in local space (stable for distance checks)
         mesh.updateWorldMatrix(true, false);
@@ -182,34 +460,139 @@ export function SelectableVertices({
           proportionalEnabled,
           radiusWorld: proportionalRadiusWorld,
           falloff,
+          proportionalMode,
+          affectSelection,
         };
+
+        // connectivity doesn't change mid-drag, so walk the surface once here
+        const from =
+          dragSkinRef.current?.pose.posed ?? dragStartPositionsRef.current;
+        dragDistancesRef.current = moveDistances({
+          mesh,
+          positions: from,
+          selected: affectSelection ? selectedRef.current : [],
+          pivotLocal,
+          opts: dragOptsRef.current,
+        });
+
+        // neither do the weights
+        const input = moveWeightsInput({
+          mesh,
+          from,
+          selected: affectSelection ? dragSelectedRef.current : [],
+          pivotLocal,
+          opts: dragOptsRef.current,
+          distances: dragDistancesRef.current,
+        });
+        dragLastMoveRef.current = null;
+        // posed positions aren't the geometry's own
+        const key = dragSkinRef.current ? null : geom.uuid;
+        if (!input || !runsOffThread(input)) {
+          dragWeightsRef.current = input && {
+            weights: computeMoveWeightsHere(input, key, pos.version),
+            pending: null,
+          };
+          return;
+        }
+
+        const drag = {
+          weights: selectionWeights(input.selected),
+          pending: input,
+        };
+        dragWeightsRef.current = drag;
+        requestMoveWeights(input, key, pos.version).then((weights) => {
+          if (dragWeightsRef.current !== drag) return; // drag is over
+          dragWeightsRef.current = { weights, pending: null };
+          const last = dragLastMoveRef.current;
+          if (last) entry.moveSelected(...last);
+        });
       },
 
       endMove: () => {
-        // finalize shading once per drag
-        const geom = mesh.geometry as THREE.BufferGeometry;
-        geom.computeVertexNormals();
+        // released before the worker answered: finish with weights from here
+        const drag = dragWeightsRef.current;
+        const last = dragLastMoveRef.current;
+        if (drag?.pending && last) {
+          dragWeightsRef.current = {
+            weights: computeMoveWeights(drag.pending, null),
+            pending: null,
+          };
+          entry.moveSelected(...last);
+        }
+        finishEdit("move");
+      },
 
-        dragStartPositionsRef.current = null;
-        dragOptsRef.current = null;
+      beginStroke,
+      updateStroke,
+      endStroke: () => finishEdit("sculpt"),
+
+      relaxSelected: ({ iterations, method }) => {
+        // a drag or stroke in progress owns the start snapshot; relaxing now
+        // would be overwritten by its next update
+        if (dragStartPositionsRef.current) return;
+        const selected = selectedRef.current;
+        if (!selected.length) return;
+
+        const positions = beginStroke();
+        const relaxed = relaxVertices({
+          geom: mesh.geometry,
+          positions,
+          selected,
+          iterations,
+          method,
+        });
+        updateStroke(relaxed);
+        finishEdit("relax");
       },
-    });
+    };
 
-    return unregister;
-  }, [registry, mesh]);
+    return registry.register(entry);
+  }, [registry, history, mesh, commitSelection, syncPosed]);
 
   // 6) click to select
   const onPointerDown = (e: ThreeEvent<PointerEvent>) => {
-    if (gHeld) return;
+    if (gHeld || hHeld || sculptEnabled) return;
     if (e.nativeEvent.button !== 0) return;
+
+    const hitIndex = (e as any).index as number | undefined;
+    if (hitIndex == null) {
+      e.stopPropagation();
+      return;
+    }
+
+    // hidden vertex: let the event go on to the next (farther) hit instead
+    if (!xray) {
+      const depth = depthSnapshotFor(
+        e.nativeEvent,
+        gl,
+        camera,
+        registry.entries().map((entry) => entry.mesh),
+      );
+      const world = pointsObj.localToWorld(
+        new THREE.Vector3().fromBufferAttribute(
+          pointsGeometry.getAttribute("position") as THREE.BufferAttribute,
+          hitIndex,
+        ),
+      );
+      if (!isPointVisible(depth, world)) return;
+    }
     e.stopPropagation();
 
-    const idx = (e as any).index as number | undefined;
-    if (idx == null) return;
+    // any seam twin picks the same logical vertex
+    const idx = getWeldMap(editableGeometry).canonical[hitIndex];
 
     const multi = e.nativeEvent.shiftKey;
+    registry.setActive(mesh.uuid);
+
+    if (lHeld) {
+      const island = selectLinked(editableGeometry, [idx]);
+      commitSelection((prev) =>
+        multi ? combineSelection(prev, island, "add") : island,
+      );
+      return;
+    }
 
-    setSelectedIndices((prev) => {
+    commitSelection((prev) => {
       if (!multi) return [idx];
       if (prev.includes(idx)) return prev.filter((x) => x !== idx);
       return [...prev, idx];
@@ -221,10 +604,11 @@ export function SelectableVertices({
       <primitive
         ref={pointsRef as any}
         object={pointsObj}
+        visible={!sculptEnabled} // the brush cursor replaces the points
         onPointerDown={onPointerDown}
       />
 
-      {pointsRef.current && selectedIndices.length > 0 && (
+      {pointsRef.current && !sculptEnabled && selectedIndices.length > 0 && (
         <SelectedVertexOverlay
           sourcePoints={pointsRef.current}
           indices={selectedIndices}
@@ -309,6 +693,52 @@ export function SelectedVertexOverlay({
   );
 }
 
+// points share the mesh geometry, so show the same shape-key mix
+function syncMorphInfluences(pts: THREE.Points, mesh: THREE.Mesh) {
+  const src = mesh.morphTargetInfluences;
+  if (!src) {
+    pts.morphTargetInfluences = undefined;
+    return;
+  }
+  if (pts.morphTargetInfluences?.length !== src.length)
+    pts.updateMorphTargets();
+  const dst = pts.morphTargetInfluences;
+  if (!dst) return;
+  for (let k = 0; k < src.length; k++) dst[k] = src[k];
+}
+
+function startSkinDrag(mesh: THREE.SkinnedMesh) {
+  const pose = captureSkinPose(mesh);
+  return { pose, scratch: new THREE.BufferAttribute(pose.posed.slice(), 3) };
+}
+
+// changes whenever the posed shape may have: positions or morph weights
+function posedKey(mesh: THREE.Mesh) {
+  const pos = mesh.geometry.getAttribute("position") as THREE.BufferAttribute;
+  return `${pos.version}|${mesh.morphTargetInfluences?.join(",") ?? ""}`;
+}
+
+function toCanonical(geom: THREE.BufferGeometry, indices: number[]) {
+  const { canonical } = getWeldMap(geom);
+  const seen = new Set<number>();
+  const out: number[] = [];
+  for (const i of indices) {
+    const c = canonical[i];
+    if (seen.has(c)) continue;
+    seen.add(c);
+    out.push(c);
+  }
+  return out;
+}
+
+function sameIndices(a: number[], b: number[]) {
+  if (a === b) return true;
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+}
+
+const _snapV = new THREE.Vector3();
 const _syncInvParent = new THREE.Matrix4();
 const _syncLocalMat = new THREE.Matrix4();
 
@@ -0,0 +1,52 @@
+"use client";
+
+import { useEffect } from "react";
+import { isEditableTarget } from "../helpers/keyboard";
+import {
+  useSelectionOperators,
+  type SelectionOperator,
+} from "../hooks/selection-operators";
+
+// Hotkeys for the topology selection operators (Blender-like):
+//   A all, Alt+A none, Ctrl+I invert, Ctrl+= / Ctrl+- grow / shrink, Ctrl+L linked
+export default function SelectionOperators() {
+  const run = useSelectionOperators();
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target) || e.repeat) return;
+      const op = operatorForKey(e);
+      if (!op) return;
+      e.preventDefault();
+      run(op);
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [run]);
+
+  return null;
+}
+
+function operatorForKey(e: KeyboardEvent): SelectionOperator | null {
+  const ctrl = e.ctrlKey || e.metaKey;
+
+  if (e.code === "KeyA" && !ctrl && !e.shiftKey)
+    return e.altKey ? "none" : "all";
+  if (!ctrl || e.altKey || e.shiftKey) return null;
+
+  switch (e.code) {
+    case "KeyI":
+      return "invert";
+    case "Equal":
+    case "NumpadAdd":
+      return "grow";
+    case "Minus":
+    case "NumpadSubtract":
+      return "shrink";
+    case "KeyL":
+      return "linked";
+    default:
+      return null;
+  }
+}
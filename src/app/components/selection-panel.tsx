@@ -0,0 +1,85 @@
+"use client";
+
+import { useToolSettings } from "../hooks/tool-settings";
+import {
+  useSelectionOperators,
+  type SelectionOperator,
+} from "../hooks/selection-operators";
+
+const OPERATORS: { op: SelectionOperator; label: string; keys: string }[] = [
+  { op: "all", label: "all", keys: "A" },
+  { op: "none", label: "none", keys: "alt+A" },
+  { op: "invert", label: "invert", keys: "ctrl+I" },
+  { op: "grow", label: "grow", keys: "ctrl+=" },
+  { op: "shrink", label: "shrink", keys: "ctrl+-" },
+  { op: "linked", label: "linked", keys: "ctrl+L, or L + click" },
+];
+
+// HUD options shared by the selection tools
+export default function SelectionPanel() {
+  const { settings, update } = useToolSettings();
+  const runOperator = useSelectionOperators();
+
+  return (
+    <div className="mt-2 flex flex-col gap-1">
+      <div className="flex flex-wrap gap-1">
+        {OPERATORS.map(({ op, label, keys }) => (
+          <button
+            key={op}
+            className="px-2 rounded bg-white/15 hover:bg-white/25"
+            title={`${label} (${keys})`}
+            type="button"
+            onClick={() => runOperator(op)}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <label className="flex gap-2 items-center">
+        <span className="w-12 opacity-80">scope</span>
+        <select
+          className="flex-1 rounded bg-black/30"
+          value={settings.selectScope}
+          onChange={(e) =>
+            update({ selectScope: e.target.value as "all" | "active" })
+          }
+        >
+          <option value="all">all meshes</option>
+          <option value="active">last clicked mesh</option>
+        </select>
+      </label>
+
+      <label
+        className="flex gap-2 items-center"
+        title="select through the mesh (alt+z)"
+      >
+        <input
+          type="checkbox"
+          checked={settings.xray}
+          onChange={(e) => update({ xray: e.target.checked })}
+        />
+        x-ray selection
+      </label>
+
+      <label
+        className="flex gap-2 items-center"
+        title="circle select radius (hold C + mouse wheel)"
+      >
+        <span className="w-12 opacity-80">brush</span>
+        <input
+          className="flex-1"
+          type="range"
+          min={2}
+          max={400}
+          step={1}
+          value={settings.brushRadius}
+          onChange={(e) => update({ brushRadius: parseFloat(e.target.value) })}
+        />
+        <span className="w-10 text-right tabular-nums">
+          {Math.round(settings.brushRadius)}px
+        </span>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { useState } from "react";
+import { useShapeKeys } from "../hooks/shape-keys";
+
+// HUD: capture the current deformation as a shape key and preview the mix
+export default function ShapeKeysPanel() {
+  const { keys, capture, remove, setWeight } = useShapeKeys();
+  const [name, setName] = useState("");
+
+  return (
+    <div className="mt-2 flex flex-col gap-1">
+      <span className="block opacity-80">shape keys</span>
+
+      <div className="flex gap-2">
+        <input
+          className="flex-1 min-w-0 px-1 rounded bg-black/30"
+          placeholder={`Key ${keys.length + 1}`}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <button
+          className="px-2 rounded bg-white/15 hover:bg-white/25"
+          type="button"
+          title="store the current deformation and reset the mesh to its loaded shape"
+          onClick={() => {
+            capture(name);
+            setName("");
+          }}
+        >
+          capture
+        </button>
+      </div>
+
+      {keys.map((k) => (
+        <label key={k.name} className="flex gap-2 items-center">
+          <span className="w-20 truncate" title={k.name}>
+            {k.name}
+          </span>
+          <input
+            className="flex-1"
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={k.weight}
+            onChange={(e) => setWeight(k.name, parseFloat(e.target.value))}
+          />
+          <span className="w-8 text-right tabular-nums">
+            {k.weight.toFixed(2)}
+          </span>
+          <button
+            className="px-2 rounded bg-white/15 hover:bg-white/25"
+            type="button"
+            onClick={() => remove(k.name)}
+          >
+            x
+          </button>
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useToolSettings } from "../hooks/tool-settings";
+import { SNAP_MODES, type SnapMode } from "../helpers/snapping";
+
+// HUD toggle for snapping during gizmo moves
+export default function SnapPanel() {
+  const { settings, update } = useToolSettings();
+
+  return (
+    <div className="mt-2 flex gap-2 items-center">
+      <label
+        className="flex gap-2 items-center"
+        title="snap gizmo moves (shift+tab); hold ctrl while dragging to flip it"
+      >
+        <input
+          type="checkbox"
+          checked={settings.snapEnabled}
+          onChange={(e) => update({ snapEnabled: e.target.checked })}
+        />
+        snap
+      </label>
+      <select
+        className="flex-1 rounded bg-black/30"
+        value={settings.snapMode}
+        onChange={(e) => update({ snapMode: e.target.value as SnapMode })}
+      >
+        {SNAP_MODES.map((mode) => (
+          <option key={mode} value={mode}>
+            {mode}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
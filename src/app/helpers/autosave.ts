@@ -0,0 +1,50 @@
+import type { ProjectFile } from "./project";
+
+// Autosaved sessions live in IndexedDB, one per model file (keyed by its hash),
+// so dropping the same file again after a refresh can offer to restore it
+const DB_NAME = "mesh-deform";
+const STORE = "autosave";
+
+let _db: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  _db ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      _db = null;
+      reject(req.error);
+    };
+  });
+  return _db;
+}
+
+async function run<T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest,
+) {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const req = fn(db.transaction(STORE, mode).objectStore(STORE));
+    req.onsuccess = () => resolve(req.result as T);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function readAutosave(modelHash: string) {
+  const project = await run<ProjectFile | undefined>("readonly", (s) =>
+    s.get(modelHash),
+  );
+  return project ?? null;
+}
+
+export function writeAutosave(project: ProjectFile) {
+  return run<IDBValidKey>("readwrite", (s) =>
+    s.put(project, project.model.hash),
+  );
+}
+
+export function deleteAutosave(modelHash: string) {
+  return run<undefined>("readwrite", (s) => s.delete(modelHash));
+}
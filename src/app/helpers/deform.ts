@@ -0,0 +1,148 @@
+import * as THREE from "three";
+import {
+  applyNonProportionalMove,
+  applyWeightedMove,
+  computeLocalTransform,
+  worldRadiusToLocal,
+  type Falloff,
+  type PivotTransform,
+  type ProportionalMode,
+} from "./vertex-edit";
+import { connectedDistances } from "./topology";
+import {
+  computeMoveWeights,
+  type MoveWeights,
+  type WeightsInput,
+} from "./move-weights";
+
+// One move of a mesh's vertices as the move tool makes it: the selected vertices
+// follow the transform fully and, with proportional editing, the ones around the
+// pivot follow it by falloff. Shared by the viewer and the `deform` CLI, so both
+// give the same positions for the same move.
+export type MoveOptions = {
+  proportionalEnabled: boolean;
+  radiusWorld: number;
+  falloff: Falloff;
+  proportionalMode: ProportionalMode;
+};
+
+// Distances the "connected" mode measures the falloff with, walked once per move
+// from the positions it starts at (null for the other modes)
+export function moveDistances(args: {
+  mesh: THREE.Mesh;
+  positions: Float32Array;
+  selected: number[];
+  pivotLocal: THREE.Vector3;
+  opts: MoveOptions;
+}) {
+  const { mesh, positions, selected, pivotLocal, opts } = args;
+  if (!opts.proportionalEnabled || opts.proportionalMode !== "connected")
+    return null;
+  return connectedDistances({
+    geom: mesh.geometry,
+    positions,
+    selected,
+    pivotLocal,
+    maxDist: worldRadiusToLocal(mesh, opts.radiusWorld),
+  });
+}
+
+type MoveArgs = {
+  mesh: THREE.Mesh;
+  from: Float32Array;
+  selected: number[];
+  pivotLocal: THREE.Vector3;
+  opts: MoveOptions | null;
+  distances: Float32Array | null;
+};
+
+// What the proportional weights of a move are computed from (null when the
+// move isn't proportional)
+export function moveWeightsInput(args: MoveArgs): WeightsInput | null {
+  const { mesh, from, selected, pivotLocal, opts, distances } = args;
+  if (!opts || !opts.proportionalEnabled) return null;
+  return {
+    positions: from,
+    selected: Uint32Array.from(selected),
+    pivot: [pivotLocal.x, pivotLocal.y, pivotLocal.z],
+    radius: worldRadiusToLocal(mesh, opts.radiusWorld),
+    falloff: opts.falloff,
+    distances,
+  };
+}
+
+// Writes `from` moved by `transform` into `target`. `selected` must already
+// include seam twins (expandWelded) so they move together. `weights` are the
+// move's proportional weights if they were computed ahead (once per drag);
+// they're computed here otherwise. Returns the vertices it wrote.
+export function moveVertices(
+  args: MoveArgs & {
+    target: THREE.BufferAttribute;
+    transform: PivotTransform;
+    weights?: MoveWeights | null;
+  },
+): ArrayLike<number> {
+  const { mesh, target, from, selected } = args;
+  const transform = computeLocalTransform(mesh, args.transform);
+
+  const input = args.weights ? null : moveWeightsInput(args);
+  const moveWeights =
+    args.weights ?? (input && computeMoveWeights(input, null));
+  // Non-proportional: only move selected vertices, based on the start snapshot
+  if (!moveWeights) {
+    applyNonProportionalMove(target, from, selected, transform);
+    return selected;
+  }
+
+  const { indices, weights } = moveWeights;
+  applyWeightedMove(target, from, indices, weights, transform);
+  return indices;
+}
+
+// Flags the moved vertices for upload: only the span they cover goes to the
+// GPU (everything when `indices` is null)
+export function markMoved(
+  pos: THREE.BufferAttribute,
+  indices: ArrayLike<number> | null,
+) {
+  if (!indices) {
+    pos.clearUpdateRanges();
+    pos.needsUpdate = true;
+    return;
+  }
+
+  let min = Infinity;
+  let max = -1;
+  for (let k = 0; k < indices.length; k++) {
+    if (indices[k] < min) min = indices[k];
+    if (indices[k] > max) max = indices[k];
+  }
+  if (max < 0) return;
+  // ranges add up until the next upload, which merges them
+  pos.addUpdateRange(min * pos.itemSize, (max - min + 1) * pos.itemSize);
+  pos.needsUpdate = true;
+}
+
+const _p = new THREE.Vector3();
+
+// Grows the bounds to take in the moved vertices, so an update costs what it
+// moved rather than the whole mesh (recomputed when `indices` is null). They
+// don't shrink back until recomputed, e.g. when the edit ends.
+export function growBounds(
+  geom: THREE.BufferGeometry,
+  indices: ArrayLike<number> | null,
+) {
+  const box = geom.boundingBox;
+  const sphere = geom.boundingSphere;
+  if (!indices || !box || !sphere) {
+    geom.computeBoundingBox();
+    geom.computeBoundingSphere();
+    return;
+  }
+  const pos = geom.getAttribute("position");
+  for (let k = 0; k < indices.length; k++) {
+    _p.fromBufferAttribute(pos, indices[k]);
+    box.expandByPoint(_p);
+    sphere.expandByPoint(_p);
+  }
+}
@@ -0,0 +1,219 @@
+import * as THREE from "three";
+import { getBasePositions } from "./shape-keys";
+import { meshesByPath, positionDeltas } from "./project";
+
+// Portable per-vertex displacement: for each edited mesh, the offsets from its
+// loaded positions, plus a topology fingerprint so the file only lands on a mesh
+// with the same vertex layout. Little-endian binary:
+//
+//   "MDSP"  u32 version  u32 meshCount
+//   per mesh:
+//     u32 pathBytes  utf8 path (padded to 4 bytes)
+//     u32 vertexCount  u32 indexHash  u32 changedCount
+//     u32 index[changedCount]  f32 xyz[changedCount * 3]
+const MAGIC = 0x5053444d; // "MDSP"
+const VERSION = 1;
+
+export type TopologyFingerprint = { vertexCount: number; indexHash: number };
+
+export type MeshDisplacement = {
+  path: string;
+  fingerprint: TopologyFingerprint;
+  indices: Uint32Array;
+  deltas: Float32Array;
+};
+
+// FNV-1a over the index buffer (0 for non-indexed geometry)
+export function topologyFingerprint(
+  geom: THREE.BufferGeometry,
+): TopologyFingerprint {
+  const vertexCount = geom.getAttribute("position")?.count ?? 0;
+  const index = geom.getIndex();
+  if (!index) return { vertexCount, indexHash: 0 };
+
+  let h = 0x811c9dc5;
+  const arr = index.array;
+  for (let i = 0; i < index.count; i++) {
+    let v = arr[i];
+    for (let b = 0; b < 4; b++) {
+      h = Math.imul(h ^ (v & 0xff), 0x01000193);
+      v >>>= 8;
+    }
+  }
+  return { vertexCount, indexHash: h >>> 0 };
+}
+
+const sameFingerprint = (a: TopologyFingerprint, b: TopologyFingerprint) =>
+  a.vertexCount === b.vertexCount && a.indexHash === b.indexHash;
+
+const describe = (f: TopologyFingerprint) =>
+  `${f.vertexCount} vertices, index hash ${f.indexHash.toString(16).padStart(8, "0")}`;
+
+// The displacement of every edited mesh below `root` (null if nothing moved)
+export function captureDisplacement(root: THREE.Object3D) {
+  const out: MeshDisplacement[] = [];
+  for (const [path, mesh] of meshesByPath(root)) {
+    const moved = positionDeltas(mesh.geometry);
+    if (!moved?.indices.length) continue;
+    out.push({
+      path,
+      fingerprint: topologyFingerprint(mesh.geometry),
+      ...moved,
+    });
+  }
+  return out.length ? out : null;
+}
+
+export function encodeDisplacement(meshes: MeshDisplacement[]) {
+  const encoder = new TextEncoder();
+  const paths = meshes.map((m) => encoder.encode(m.path));
+
+  let size = 12;
+  meshes.forEach((m, k) => {
+    size += 4 + align4(paths[k].length) + 12 + m.indices.length * 16;
+  });
+
+  const buffer = new ArrayBuffer(size);
+  const view = new DataView(buffer);
+  let o = 0;
+  const u32 = (v: number) => {
+    view.setUint32(o, v, true);
+    o += 4;
+  };
+
+  u32(MAGIC);
+  u32(VERSION);
+  u32(meshes.length);
+  meshes.forEach((m, k) => {
+    u32(paths[k].length);
+    new Uint8Array(buffer, o, paths[k].length).set(paths[k]);
+    o += align4(paths[k].length);
+    u32(m.fingerprint.vertexCount);
+    u32(m.fingerprint.indexHash);
+    u32(m.indices.length);
+    for (const i of m.indices) u32(i);
+    for (const d of m.deltas) {
+      view.setFloat32(o, d, true);
+      o += 4;
+    }
+  });
+  return buffer;
+}
+
+// Throws an Error with a readable message if this isn't a displacement file
+export function decodeDisplacement(buffer: ArrayBuffer): MeshDisplacement[] {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+  let o = 0;
+  const u32 = () => {
+    if (o + 4 > buffer.byteLength) throw new Error("file is truncated");
+    const v = view.getUint32(o, true);
+    o += 4;
+    return v;
+  };
+
+  if (buffer.byteLength < 12 || u32() !== MAGIC)
+    throw new Error("not a displacement file");
+  const version = u32();
+  if (version > VERSION)
+    throw new Error(
+      `displacement version ${version} is newer than this viewer supports`,
+    );
+
+  const meshes: MeshDisplacement[] = [];
+  const count = u32();
+  for (let k = 0; k < count; k++) {
+    const pathLength = u32();
+    if (o + pathLength > buffer.byteLength)
+      throw new Error("file is truncated");
+    const path = decoder.decode(new Uint8Array(buffer, o, pathLength));
+    o += align4(pathLength);
+    const fingerprint = { vertexCount: u32(), indexHash: u32() };
+
+    const changed = u32();
+    if (o + changed * 16 > buffer.byteLength)
+      throw new Error("file is truncated");
+    const indices = new Uint32Array(changed);
+    for (let i = 0; i < changed; i++) {
+      indices[i] = u32();
+      if (indices[i] >= fingerprint.vertexCount)
+        throw new Error(`${path}: vertex index out of range`);
+    }
+    const deltas = new Float32Array(changed * 3);
+    for (let i = 0; i < deltas.length; i++, o += 4) {
+      deltas[i] = view.getFloat32(o, true);
+    }
+    meshes.push({ path, fingerprint, indices, deltas });
+  }
+  return meshes;
+}
+
+// Pairs each displaced mesh with a mesh below `root`: by path, or failing that the
+// only unpaired mesh with the same fingerprint (re-exports often rename nodes).
+// Throws, pairing nothing, if any mesh is missing or its topology differs.
+export function matchDisplacement(
+  root: THREE.Object3D,
+  meshes: MeshDisplacement[],
+) {
+  const byPath = meshesByPath(root);
+  const prints = new Map(
+    [...byPath.values()].map((m) => [m, topologyFingerprint(m.geometry)]),
+  );
+  const pairs = new Map<MeshDisplacement, THREE.Mesh>();
+  const used = new Set<THREE.Mesh>();
+  const errors: string[] = [];
+
+  for (const d of meshes) {
+    const mesh = byPath.get(d.path);
+    if (!mesh) continue;
+    const found = prints.get(mesh)!;
+    if (!sameFingerprint(found, d.fingerprint)) {
+      errors.push(
+        `${d.path}: topology differs (file: ${describe(d.fingerprint)}; model: ${describe(found)})`,
+      );
+      continue;
+    }
+    pairs.set(d, mesh);
+    used.add(mesh);
+  }
+
+  for (const d of meshes) {
+    if (pairs.has(d) || byPath.has(d.path)) continue;
+    const candidates = [...byPath.values()].filter(
+      (m) => !used.has(m) && sameFingerprint(prints.get(m)!, d.fingerprint),
+    );
+    if (candidates.length !== 1) {
+      errors.push(
+        `${d.path}: no mesh with that name${candidates.length ? " and several" : " or"} with the same topology (${describe(d.fingerprint)})`,
+      );
+      continue;
+    }
+    pairs.set(d, candidates[0]);
+    used.add(candidates[0]);
+  }
+
+  if (errors.length) throw new Error(errors.join("\n"));
+  return pairs;
+}
+
+// Writes the mesh's loaded positions plus the displacement into `out`
+export function displacedPositions(
+  mesh: THREE.Mesh,
+  d: MeshDisplacement,
+  out: Float32Array,
+) {
+  const base = getBasePositions(mesh.geometry as THREE.BufferGeometry);
+  if (!base || out.length !== base.length) return false;
+  out.set(base);
+  for (let k = 0; k < d.indices.length; k++) {
+    const ix = d.indices[k] * 3;
+    out[ix] += d.deltas[k * 3];
+    out[ix + 1] += d.deltas[k * 3 + 1];
+    out[ix + 2] += d.deltas[k * 3 + 2];
+  }
+  return true;
+}
+
+function align4(n: number) {
+  return (n + 3) & ~3;
+}
@@ -0,0 +1,62 @@
+import { modelFormat, type Companions } from "./loaders";
+
+// A dropped file with its path inside the drop ("scene/textures/a.png" when
+// a folder was dropped, just the name otherwise)
+export type DroppedFile = { path: string; file: File };
+
+// Every file in a drop, walking into dropped folders
+export async function readDroppedFiles(
+  data: DataTransfer,
+): Promise<DroppedFile[]> {
+  const entries = Array.from(data.items ?? [])
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((e): e is FileSystemEntry => !!e);
+
+  // no entry API: a flat list of files
+  if (!entries.length) {
+    return Array.from(data.files).map((file) => ({ path: file.name, file }));
+  }
+
+  const out: DroppedFile[] = [];
+  for (const entry of entries) await walk(entry, out);
+  return out;
+}
+
+async function walk(entry: FileSystemEntry, out: DroppedFile[]) {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject),
+    );
+    out.push({ path: entry.fullPath.replace(/^\//, ""), file });
+    return;
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  // readEntries returns the folder in batches until it returns none
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject),
+    );
+    if (!batch.length) break;
+    for (const child of batch) await walk(child, out);
+  }
+}
+
+// The model to load (the first file of a supported type, shallowest first) and
+// every other file as its companions, keyed relative to the model's folder
+export function pickModel(files: DroppedFile[]) {
+  const depth = (f: DroppedFile) => f.path.split("/").length;
+  const model = files
+    .filter((f) => modelFormat(f.file.name))
+    .sort((a, b) => depth(a) - depth(b))[0];
+  if (!model) return null;
+
+  const dir = model.path.slice(0, model.path.lastIndexOf("/") + 1);
+  const companions: Companions = new Map();
+  for (const f of files) {
+    if (f === model) continue;
+    const path = f.path.startsWith(dir) ? f.path.slice(dir.length) : f.path;
+    companions.set(path.toLowerCase(), f.file);
+  }
+  return { file: model.file, companions };
+}
@@ -0,0 +1,238 @@
+import * as THREE from "three";
+import { GLTFExporter } from "three/examples/jsm/exporters/GLTFExporter.js";
+import { OBJExporter } from "three/examples/jsm/exporters/OBJExporter.js";
+import { STLExporter } from "three/examples/jsm/exporters/STLExporter.js";
+import { PLYExporter } from "three/examples/jsm/exporters/PLYExporter.js";
+import { USDZExporter } from "three/examples/jsm/exporters/USDZExporter.js";
+import { clone as cloneSkinned } from "three/examples/jsm/utils/SkeletonUtils.js";
+import { patchGltf, readGltf, writeGlb } from "./gltf-patch";
+import {
+  compressGlb,
+  consolidateBuffers,
+  pruneUnused,
+  type GltfCompression,
+} from "./gltf-compress";
+import { findCompanion, modelFormat, type Companions } from "./loaders";
+import { toBase64, type LoadedModel } from "./project";
+
+export type ExportFormat = "glb" | "gltf" | "obj" | "stl" | "ply" | "usdz";
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "glb", label: "glTF binary (.glb)" },
+  { format: "gltf", label: "glTF (.gltf + .bin + textures)" },
+  { format: "obj", label: "OBJ (.obj)" },
+  { format: "stl", label: "STL (.stl)" },
+  { format: "ply", label: "PLY (.ply)" },
+  { format: "usdz", label: "USDZ (.usdz)" },
+];
+
+// Only the glTF formats can carry compressed meshes
+export const canCompress = (format: ExportFormat) =>
+  format === "glb" || format === "gltf";
+
+export type ExportFile = { name: string; blob: Blob };
+
+// The deformed model in `format`, as the file(s) to save. Rejects with a readable
+// Error when the model can't be written that way.
+export async function exportModel(args: {
+  root: THREE.Object3D;
+  model: LoadedModel;
+  format: ExportFormat;
+  compression?: GltfCompression;
+  companions?: Companions;
+}): Promise<ExportFile[]> {
+  const { root, model, format, compression = "none", companions } = args;
+  const base = (model.name.replace(/\.[^.]+$/, "") || "model") + "_deformed";
+
+  if (canCompress(format)) {
+    let glb = await deformedGlb(root, model, companions);
+    if (compression !== "none") glb = await compressGlb(glb, compression);
+    return format === "glb"
+      ? [
+          {
+            name: `${base}.glb`,
+            blob: new Blob([glb], { type: "model/gltf-binary" }),
+          },
+        ]
+      : splitGlb(glb, base);
+  }
+
+  // Exporters bake world matrices: export a detached copy so the viewer's
+  // framing isn't applied and the file stays in the model's units
+  const scene = cloneSkinned(root);
+  scene.updateMatrixWorld(true);
+
+  switch (format) {
+    case "obj":
+      return [
+        {
+          name: `${base}.obj`,
+          blob: new Blob([new OBJExporter().parse(scene)], {
+            type: "text/plain",
+          }),
+        },
+      ];
+    case "stl": {
+      const data = new STLExporter().parse(scene, { binary: true });
+      return [
+        {
+          name: `${base}.stl`,
+          blob: new Blob([data], { type: "model/stl" }),
+        },
+      ];
+    }
+    case "ply": {
+      const data = await new Promise<ArrayBuffer>((resolve) =>
+        new PLYExporter().parse(scene, resolve, { binary: true }),
+      );
+      return [
+        {
+          name: `${base}.ply`,
+          blob: new Blob([data], { type: "application/octet-stream" }),
+        },
+      ];
+    }
+    case "usdz": {
+      if (!toStandardMaterials(scene))
+        throw new Error("no mesh has a material USDZ can hold");
+      const data = await new USDZExporter().parseAsync(scene);
+      return [
+        {
+          name: `${base}.usdz`,
+          blob: new Blob([data], { type: "model/vnd.usdz+zip" }),
+        },
+      ];
+    }
+  }
+}
+
+// glTF sources: patch the file that was dropped instead of re-exporting the
+// three.js scene, so hierarchy, names, animations, skins and extensions survive
+// untouched. Other formats have no glTF to patch and are converted instead.
+async function deformedGlb(
+  root: THREE.Object3D,
+  model: LoadedModel,
+  companions?: Companions,
+) {
+  if (modelFormat(model.name) !== "gltf") {
+    return (await new GLTFExporter().parseAsync(root, {
+      binary: true,
+    })) as ArrayBuffer;
+  }
+  const meshes: THREE.Mesh[] = [];
+  root.traverse((o) => {
+    if ((o as THREE.Mesh).isMesh) meshes.push(o as THREE.Mesh);
+  });
+  return patchGltf(await embedResources(model.bytes, companions), meshes);
+}
+
+// A .gltf whose buffers and images are separate files, with those files
+// (dropped along with it) inlined as data URIs
+export async function embedResources(
+  source: ArrayBuffer,
+  companions?: Companions,
+) {
+  const { json, bin } = readGltf(source);
+  const external = [...(json.buffers ?? []), ...(json.images ?? [])].filter(
+    (r) => r.uri !== undefined && !r.uri.startsWith("data:"),
+  );
+  if (!external.length) return source;
+
+  for (const r of external) {
+    const file = companions && findCompanion(companions, r.uri!);
+    if (!file) throw new Error(`${r.uri} wasn't dropped with the model`);
+    // files read from disk (the CLI) have no type: go by the extension
+    const ext = r.uri!.split(/[?#]/)[0].split(".").pop()?.toLowerCase();
+    const type =
+      file.type ||
+      Object.keys(IMAGE_EXTENSIONS).find((t) => IMAGE_EXTENSIONS[t] === ext) ||
+      (ext === "jpeg" ? "image/jpeg" : "application/octet-stream");
+    r.uri = `data:${type};base64,${toBase64(await file.arrayBuffer())}`;
+  }
+  return bin
+    ? writeGlb(json, bin)
+    : (new TextEncoder().encode(JSON.stringify(json)).buffer as ArrayBuffer);
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/ktx2": "ktx2",
+};
+
+// A GLB as a .gltf with its binary body in `${base}.bin` and each embedded
+// image in its own file next to it
+function splitGlb(glb: ArrayBuffer, base: string): ExportFile[] {
+  const { json, bin } = readGltf(glb);
+  const body = bin ?? new Uint8Array(0);
+  const files: ExportFile[] = [];
+
+  json.images?.forEach((image, i) => {
+    if (image.bufferView === undefined) return;
+    const view = json.bufferViews![image.bufferView];
+    const bytes = body.slice(
+      view.byteOffset ?? 0,
+      (view.byteOffset ?? 0) + view.byteLength,
+    );
+    const ext = IMAGE_EXTENSIONS[image.mimeType ?? ""] ?? "bin";
+    image.uri = `${base}_image${i}.${ext}`;
+    delete image.bufferView;
+    files.push({
+      name: image.uri,
+      blob: new Blob([bytes], { type: image.mimeType }),
+    });
+  });
+
+  // the image views are unused now
+  pruneUnused(json);
+  const data = consolidateBuffers(json, body);
+  if (data.length) {
+    json.buffers![0].uri = `${base}.bin`;
+    files.unshift({
+      name: `${base}.bin`,
+      blob: new Blob([data], { type: "application/octet-stream" }),
+    });
+  } else {
+    json.buffers = json.buffers!.slice(1);
+  }
+
+  files.unshift({
+    name: `${base}.gltf`,
+    blob: new Blob([JSON.stringify(json, null, 2)], {
+      type: "model/gltf+json",
+    }),
+  });
+  return files;
+}
+
+// USDZ only holds MeshStandardMaterial: other single materials (OBJ / FBX load
+// Phong and Lambert) are swapped for a standard one with the same colour and
+// maps. Returns how many meshes can be exported.
+function toStandardMaterials(scene: THREE.Object3D) {
+  let count = 0;
+  scene.traverse((o) => {
+    const mesh = o as THREE.Mesh;
+    if (!mesh.isMesh || Array.isArray(mesh.material)) return;
+    const m = mesh.material as THREE.MeshPhongMaterial;
+    if (
+      !(m as THREE.Material as THREE.MeshStandardMaterial)
+        .isMeshStandardMaterial
+    ) {
+      mesh.material = new THREE.MeshStandardMaterial({
+        name: m.name,
+        color: m.color,
+        map: m.map,
+        normalMap: m.normalMap,
+        emissive: m.emissive,
+        emissiveMap: m.emissiveMap,
+        opacity: m.opacity,
+        transparent: m.transparent,
+        vertexColors: m.vertexColors,
+        side: m.side,
+      });
+    }
+    count++;
+  });
+  return count;
+}
@@ -0,0 +1,556 @@
+import { MeshoptEncoder } from "meshoptimizer";
+import {
+  BinWriter,
+  readGltf,
+  writeGlb,
+  type AccessorDef,
+  type BufferDef,
+  type GltfJson,
+  type PrimitiveDef,
+} from "./gltf-patch";
+import { fromBase64 } from "./project";
+
+export type GltfCompression = "none" | "draco" | "meshopt";
+
+export const GLTF_COMPRESSIONS: GltfCompression[] = [
+  "none",
+  "draco",
+  "meshopt",
+];
+
+const DRACO = "KHR_draco_mesh_compression";
+const MESHOPT = "EXT_meshopt_compression";
+
+// three's asm.js build of the encoder, served from public/: bundling it doesn't
+// work (it requires node's fs when it detects CommonJS)
+const DRACO_ENCODER_URL = "/draco/draco_encoder.js";
+
+const TRIANGLES = 4;
+const UNSIGNED_SHORT = 5123;
+const UNSIGNED_INT = 5125;
+
+const COMPONENT_BYTES: Record<number, number> = {
+  5120: 1,
+  5121: 1,
+  5122: 2,
+  5123: 2,
+  5125: 4,
+  5126: 4,
+};
+const TYPE_SIZE: Record<string, number> = {
+  SCALAR: 1,
+  VEC2: 2,
+  VEC3: 3,
+  VEC4: 4,
+  MAT2: 4,
+  MAT3: 9,
+  MAT4: 16,
+};
+
+// Compresses the meshes of a GLB with Draco (lossy: positions are quantised
+// to 14 bits) or meshopt (lossless), dropping data nothing refers to any more.
+// Everything else is kept as it was.
+export async function compressGlb(
+  glb: ArrayBuffer,
+  method: Exclude<GltfCompression, "none">,
+): Promise<ArrayBuffer> {
+  const { json, bin } = readGltf(glb);
+  pruneUnused(json);
+  const data = consolidateBuffers(json, bin ?? new Uint8Array(0));
+
+  const out =
+    method === "draco"
+      ? await dracoCompress(json, data)
+      : await meshoptCompress(json, data);
+  return writeGlb(json, out);
+}
+
+// Drops accessors and buffer views nothing refers to (e.g. the ones a patch or a
+// compression replaced), renumbering the references to the rest
+export function pruneUnused(json: GltfJson) {
+  const usedAccessors = new Set<number>();
+  forEachAccessorRef(json, (i) => {
+    usedAccessors.add(i);
+    return i;
+  });
+  const accessors = keepUsed(json.accessors ?? [], usedAccessors);
+  json.accessors = accessors.kept;
+  forEachAccessorRef(json, (i) => accessors.remap.get(i)!);
+
+  const usedViews = new Set<number>();
+  forEachViewRef(json, (i) => {
+    usedViews.add(i);
+    return i;
+  });
+  const views = keepUsed(json.bufferViews ?? [], usedViews);
+  json.bufferViews = views.kept;
+  forEachViewRef(json, (i) => views.remap.get(i)!);
+}
+
+// Copies every buffer view into one new binary body (buffer 0), so data that
+// was dropped is gone and data-URI buffers of .gltf sources are merged in.
+// Meshopt fallback buffers (which hold no data) are kept after it.
+export function consolidateBuffers(json: GltfJson, bin: Uint8Array) {
+  const buffers = json.buffers ?? [];
+  const decoded = new Map<number, Uint8Array>();
+  const read = (index: number, offset: number, length: number) => {
+    let src = decoded.get(index);
+    if (!src) {
+      const uri = buffers[index]?.uri;
+      if (index === 0 && uri === undefined) src = bin;
+      else if (uri?.startsWith("data:"))
+        src = new Uint8Array(fromBase64(uri.slice(uri.indexOf(",") + 1)));
+      else throw new Error("the model refers to buffers outside the file");
+      decoded.set(index, src);
+    }
+    return src.subarray(offset, offset + length);
+  };
+
+  const fallbacks = new Map<number, number>();
+  const kept: BufferDef[] = [{ byteLength: 0 }];
+  buffers.forEach((b, i) => {
+    if (!b.extensions?.[MESHOPT]?.fallback) return;
+    fallbacks.set(i, kept.length);
+    kept.push(b);
+  });
+
+  const writer = new BinWriter(new Uint8Array(0));
+  for (const view of json.bufferViews ?? []) {
+    // compressed views: the data is in the extension, the view itself points
+    // into a fallback buffer
+    const meshopt = view.extensions?.[MESHOPT];
+    if (meshopt) {
+      meshopt.byteOffset = writer.append(
+        read(meshopt.buffer, meshopt.byteOffset ?? 0, meshopt.byteLength),
+      );
+      meshopt.buffer = 0;
+      view.buffer = fallbacks.get(view.buffer) ?? view.buffer;
+      continue;
+    }
+    view.byteOffset = writer.append(
+      read(view.buffer, view.byteOffset ?? 0, view.byteLength),
+    );
+    view.buffer = 0;
+  }
+
+  kept[0].byteLength = writer.length;
+  json.buffers = kept;
+  return writer.concat();
+}
+
+// --- Draco (KHR_draco_mesh_compression) ---
+
+type DracoArray = { size(): number; GetValue(i: number): number };
+type AddAttribute = (
+  mesh: object,
+  type: number,
+  count: number,
+  components: number,
+  values: ArrayLike<number>,
+) => number;
+type DracoMeshBuilder = {
+  AddFacesToMesh(mesh: object, faces: number, indices: Uint32Array): boolean;
+} & Record<string, AddAttribute>;
+type DracoEncoder = {
+  SetSpeedOptions(encode: number, decode: number): void;
+  SetEncodingMethod(method: number): void;
+  SetAttributeQuantization(type: number, bits: number): void;
+  EncodeMeshToDracoBuffer(mesh: object, out: DracoArray): number;
+};
+type DracoEncoderModule = {
+  Encoder: new () => DracoEncoder;
+  MeshBuilder: new () => DracoMeshBuilder;
+  Mesh: new () => object;
+  DracoInt8Array: new () => DracoArray;
+  POSITION: number;
+  NORMAL: number;
+  TEX_COORD: number;
+  COLOR: number;
+  GENERIC: number;
+  MESH_SEQUENTIAL_ENCODING: number;
+  destroy(o: object): void;
+};
+
+// MeshBuilder method for each accessor component type
+const DRACO_ADD: Record<number, string> = {
+  5120: "AddInt8Attribute",
+  5121: "AddUInt8Attribute",
+  5122: "AddInt16Attribute",
+  5123: "AddUInt16Attribute",
+  5125: "AddUInt32Attribute",
+  5126: "AddFloatAttribute",
+};
+
+// wrapped: the emscripten module has a `then` that never settles a promise
+let _dracoEncoder: Promise<{ draco: DracoEncoderModule }> | null = null;
+
+function loadDracoEncoder() {
+  _dracoEncoder ??= new Promise((resolve, reject) => {
+    const script = document.createElement("script");
+    script.src = DRACO_ENCODER_URL;
+    script.onload = () => {
+      const factory = (
+        window as unknown as { DracoEncoderModule: () => DracoEncoderModule }
+      ).DracoEncoderModule;
+      resolve({ draco: factory() });
+    };
+    script.onerror = () => {
+      _dracoEncoder = null;
+      reject(
+        new Error(`couldn't load the Draco encoder (${DRACO_ENCODER_URL})`),
+      );
+    };
+    document.head.appendChild(script);
+  });
+  return _dracoEncoder;
+}
+
+async function dracoCompress(json: GltfJson, bin: Uint8Array) {
+  const { draco } = await loadDracoEncoder();
+  const writer = new BinWriter(bin);
+  const accessors = json.accessors ?? [];
+  let compressed = 0;
+
+  for (const mesh of json.meshes ?? []) {
+    for (const prim of mesh.primitives) {
+      if ((prim.mode ?? TRIANGLES) !== TRIANGLES || prim.extensions?.[DRACO])
+        continue;
+      const encoded = encodeDracoPrimitive(draco, json, bin, prim);
+      if (!encoded) continue;
+
+      const bufferView =
+        json.bufferViews!.push({
+          buffer: 0,
+          byteOffset: writer.append(encoded.data),
+          byteLength: encoded.data.length,
+        }) - 1;
+
+      // Compressed primitives get accessors of their own, without data (the
+      // old ones may be shared with other primitives, which keep them)
+      const bare = (a: AccessorDef): AccessorDef => ({
+        componentType: a.componentType,
+        ...(a.normalized ? { normalized: true } : {}),
+        count: a.count,
+        type: a.type,
+        ...(a.min ? { min: a.min, max: a.max } : {}),
+      });
+      for (const name of Object.keys(prim.attributes)) {
+        prim.attributes[name] =
+          accessors.push(bare(accessors[prim.attributes[name]])) - 1;
+      }
+      prim.indices =
+        accessors.push(
+          prim.indices !== undefined
+            ? bare(accessors[prim.indices])
+            : {
+                componentType:
+                  encoded.indexCount > 0xffff ? UNSIGNED_INT : UNSIGNED_SHORT,
+                count: encoded.indexCount,
+                type: "SCALAR",
+              },
+        ) - 1;
+      prim.extensions = {
+        ...prim.extensions,
+        [DRACO]: { bufferView, attributes: encoded.ids },
+      };
+      compressed++;
+    }
+  }
+
+  if (!compressed) throw new Error("no mesh could be Draco-compressed");
+  addExtension(json, DRACO);
+
+  json.buffers![0].byteLength = writer.length;
+  pruneUnused(json);
+  return consolidateBuffers(json, writer.concat());
+}
+
+function encodeDracoPrimitive(
+  draco: DracoEncoderModule,
+  json: GltfJson,
+  bin: Uint8Array,
+  prim: PrimitiveDef,
+) {
+  const accessors = json.accessors ?? [];
+  const position = accessors[prim.attributes.POSITION];
+  if (!position) return null;
+  const count = position.count;
+
+  let indices: Uint32Array;
+  if (prim.indices !== undefined) {
+    const values = readAccessor(json, bin, prim.indices);
+    if (!values) return null;
+    indices = Uint32Array.from(values);
+  } else {
+    indices = new Uint32Array(count);
+    for (let i = 0; i < count; i++) indices[i] = i;
+  }
+  if (!indices.length || indices.length % 3) return null;
+
+  const builder = new draco.MeshBuilder();
+  const mesh = new draco.Mesh();
+  const encoder = new draco.Encoder();
+  const out = new draco.DracoInt8Array();
+  try {
+    builder.AddFacesToMesh(mesh, indices.length / 3, indices);
+
+    const ids: Record<string, number> = {};
+    for (const [name, index] of Object.entries(prim.attributes)) {
+      const accessor = accessors[index];
+      const values = readAccessor(json, bin, index);
+      const add = builder[DRACO_ADD[accessor.componentType]];
+      if (!values || !add || accessor.count !== count) return null;
+      ids[name] = add.call(
+        builder,
+        mesh,
+        dracoAttributeType(draco, name),
+        count,
+        TYPE_SIZE[accessor.type],
+        values,
+      );
+    }
+
+    // sequential encoding keeps the vertex order (edgebreaker would reorder
+    // them, and morph targets / skins index them)
+    encoder.SetEncodingMethod(draco.MESH_SEQUENTIAL_ENCODING);
+    encoder.SetSpeedOptions(5, 5);
+    encoder.SetAttributeQuantization(draco.POSITION, 14);
+    encoder.SetAttributeQuantization(draco.NORMAL, 10);
+    encoder.SetAttributeQuantization(draco.TEX_COORD, 12);
+    encoder.SetAttributeQuantization(draco.COLOR, 8);
+    encoder.SetAttributeQuantization(draco.GENERIC, 12);
+
+    const length = encoder.EncodeMeshToDracoBuffer(mesh, out);
+    if (!length) return null;
+    const data = new Uint8Array(length);
+    for (let i = 0; i < length; i++) data[i] = out.GetValue(i);
+    return { data, ids, indexCount: indices.length };
+  } finally {
+    draco.destroy(out);
+    draco.destroy(encoder);
+    draco.destroy(mesh);
+    draco.destroy(builder);
+  }
+}
+
+function dracoAttributeType(draco: DracoEncoderModule, name: string) {
+  if (name === "POSITION") return draco.POSITION;
+  if (name === "NORMAL") return draco.NORMAL;
+  if (name.startsWith("TEXCOORD_")) return draco.TEX_COORD;
+  if (name.startsWith("COLOR_")) return draco.COLOR;
+  return draco.GENERIC;
+}
+
+// --- meshopt (EXT_meshopt_compression) ---
+
+type MeshoptMode = "ATTRIBUTES" | "TRIANGLES" | "INDICES";
+
+async function meshoptCompress(json: GltfJson, bin: Uint8Array) {
+  if (json.extensionsUsed?.includes(MESHOPT))
+    throw new Error("the model is already meshopt-compressed");
+  await MeshoptEncoder.ready;
+
+  const accessors = json.accessors ?? [];
+  const views = json.bufferViews ?? [];
+
+  // how each view is read by the meshes; views read in more than one way (or
+  // also by skins / animations) stay uncompressed
+  const usage = new Map<number, { mode: MeshoptMode; stride: number }>();
+  const mixed = new Set<number>();
+  const note = (index: number, mode: MeshoptMode) => {
+    const a = accessors[index];
+    if (a?.bufferView === undefined || a.sparse) return;
+    const view = views[a.bufferView];
+    const stride =
+      view.byteStride ?? COMPONENT_BYTES[a.componentType] * TYPE_SIZE[a.type];
+    const prev = usage.get(a.bufferView);
+    if (prev && (prev.mode !== mode || prev.stride !== stride))
+      mixed.add(a.bufferView);
+    else usage.set(a.bufferView, { mode, stride });
+  };
+  for (const mesh of json.meshes ?? []) {
+    for (const prim of mesh.primitives) {
+      for (const i of Object.values(prim.attributes)) note(i, "ATTRIBUTES");
+      for (const t of prim.targets ?? []) {
+        for (const i of Object.values(t)) note(i, "ATTRIBUTES");
+      }
+      if (prim.indices !== undefined)
+        note(
+          prim.indices,
+          (prim.mode ?? TRIANGLES) === TRIANGLES ? "TRIANGLES" : "INDICES",
+        );
+    }
+  }
+  forEachAccessorRef(json, (i, inMesh) => {
+    const v = accessors[i]?.bufferView;
+    if (!inMesh && v !== undefined) mixed.add(v);
+    return i;
+  });
+
+  const writer = new BinWriter(new Uint8Array(0));
+  let fallbackLength = 0;
+  views.forEach((view, i) => {
+    const start = view.byteOffset ?? 0;
+    const data = bin.subarray(start, start + view.byteLength);
+    const u = mixed.has(i) ? undefined : usage.get(i);
+    const count = u ? view.byteLength / u.stride : 0;
+    const ok =
+      u &&
+      Number.isInteger(count) &&
+      (u.mode === "ATTRIBUTES"
+        ? u.stride % 4 === 0 && u.stride <= 256
+        : (u.stride === 2 || u.stride === 4) &&
+          (u.mode !== "TRIANGLES" || count % 3 === 0));
+
+    if (!u || !ok) {
+      view.byteOffset = writer.append(data);
+      view.buffer = 0;
+      return;
+    }
+
+    const encoded = MeshoptEncoder.encodeGltfBuffer(
+      data,
+      count,
+      u.stride,
+      u.mode,
+    );
+    view.extensions = {
+      ...view.extensions,
+      [MESHOPT]: {
+        buffer: 0,
+        byteOffset: writer.append(encoded),
+        byteLength: encoded.length,
+        byteStride: u.stride,
+        count,
+        mode: u.mode,
+      },
+    };
+    // the view's own range is in the fallback buffer, which has no data
+    view.buffer = 1;
+    view.byteOffset = align4(fallbackLength);
+    fallbackLength = view.byteOffset + view.byteLength;
+  });
+
+  if (!fallbackLength) throw new Error("no mesh data could be compressed");
+  json.buffers = [
+    { byteLength: writer.length },
+    {
+      byteLength: fallbackLength,
+      extensions: { [MESHOPT]: { fallback: true } },
+    },
+  ];
+  addExtension(json, MESHOPT);
+  return writer.concat();
+}
+
+// --- JSON plumbing ---
+
+// Calls `fn` on every accessor reference and stores what it returns. `inMesh`
+// is false for the ones outside mesh primitives (skins, animations, instancing).
+function forEachAccessorRef(
+  json: GltfJson,
+  fn: (index: number, inMesh: boolean) => number,
+) {
+  const other = (i: number) => fn(i, false);
+
+  for (const mesh of json.meshes ?? []) {
+    for (const prim of mesh.primitives) {
+      for (const k in prim.attributes)
+        prim.attributes[k] = fn(prim.attributes[k], true);
+      if (prim.indices !== undefined) prim.indices = fn(prim.indices, true);
+      for (const t of prim.targets ?? []) {
+        for (const k in t) t[k] = fn(t[k], true);
+      }
+    }
+  }
+  for (const skin of json.skins ?? []) {
+    if (skin.inverseBindMatrices !== undefined)
+      skin.inverseBindMatrices = other(skin.inverseBindMatrices);
+  }
+  for (const anim of json.animations ?? []) {
+    for (const s of anim.samplers) {
+      s.input = other(s.input);
+      s.output = other(s.output);
+    }
+  }
+  for (const node of json.nodes ?? []) {
+    const attrs = node.extensions?.EXT_mesh_gpu_instancing?.attributes;
+    for (const k in attrs ?? {}) attrs![k] = other(attrs![k]);
+  }
+}
+
+function forEachViewRef(json: GltfJson, fn: (index: number) => number) {
+  for (const a of json.accessors ?? []) {
+    if (a.bufferView !== undefined) a.bufferView = fn(a.bufferView);
+    if (a.sparse) {
+      a.sparse.indices.bufferView = fn(a.sparse.indices.bufferView);
+      a.sparse.values.bufferView = fn(a.sparse.values.bufferView);
+    }
+  }
+  for (const img of json.images ?? []) {
+    if (img.bufferView !== undefined) img.bufferView = fn(img.bufferView);
+  }
+  for (const mesh of json.meshes ?? []) {
+    for (const prim of mesh.primitives) {
+      const ext = prim.extensions?.[DRACO];
+      if (ext) ext.bufferView = fn(ext.bufferView);
+    }
+  }
+}
+
+function keepUsed<T>(items: T[], used: Set<number>) {
+  const remap = new Map<number, number>();
+  const kept: T[] = [];
+  items.forEach((item, i) => {
+    if (!used.has(i)) return;
+    remap.set(i, kept.length);
+    kept.push(item);
+  });
+  return { kept, remap };
+}
+
+// An accessor's values, tightly packed (null if it has no plain data here)
+function readAccessor(json: GltfJson, bin: Uint8Array, index: number) {
+  const a = json.accessors?.[index];
+  if (a?.bufferView === undefined || a.sparse) return null;
+  const view = json.bufferViews![a.bufferView];
+  if (view.buffer !== 0 || view.extensions?.[MESHOPT]) return null;
+
+  const elementSize = COMPONENT_BYTES[a.componentType] * TYPE_SIZE[a.type];
+  const stride = view.byteStride ?? elementSize;
+  const start = (view.byteOffset ?? 0) + (a.byteOffset ?? 0);
+  const bytes = new Uint8Array(a.count * elementSize);
+  for (let i = 0; i < a.count; i++) {
+    const at = start + i * stride;
+    bytes.set(bin.subarray(at, at + elementSize), i * elementSize);
+  }
+
+  switch (a.componentType) {
+    case 5120:
+      return new Int8Array(bytes.buffer);
+    case 5121:
+      return bytes;
+    case 5122:
+      return new Int16Array(bytes.buffer);
+    case 5123:
+      return new Uint16Array(bytes.buffer);
+    case 5125:
+      return new Uint32Array(bytes.buffer);
+    case 5126:
+      return new Float32Array(bytes.buffer);
+  }
+  return null;
+}
+
+function addExtension(json: GltfJson, name: string) {
+  json.extensionsUsed = Array.from(
+    new Set([...(json.extensionsUsed ?? []), name]),
+  );
+  json.extensionsRequired = Array.from(
+    new Set([...(json.extensionsRequired ?? []), name]),
+  );
+}
+
+function align4(n: number) {
+  return (n + 3) & ~3;
+}
@@ -0,0 +1,542 @@
+import * as THREE from "three";
+import type {
+  GLTF,
+  GLTFReference,
+} from "three/examples/jsm/loaders/GLTFLoader.js";
+import { getBasePositions, getShapeKeyNames } from "./shape-keys";
+
+// Which glTF mesh / primitive a loaded THREE.Mesh was built from
+export type PrimitiveRef = { mesh: number; primitive: number };
+
+const _primitiveRefs = new WeakMap<THREE.Object3D, PrimitiveRef>();
+
+// Reads the loader's associations, so it must run on gltf.scene itself (not a clone)
+export function rememberPrimitiveRefs(gltf: GLTF) {
+  gltf.scene.traverse((o) => {
+    const ref = gltf.parser.associations.get(o) as
+      (GLTFReference & { primitives?: number }) | undefined;
+    if (!(o as THREE.Mesh).isMesh) return;
+    if (ref?.meshes === undefined || ref.primitives === undefined) return;
+    _primitiveRefs.set(o, { mesh: ref.meshes, primitive: ref.primitives });
+  });
+}
+
+export function getPrimitiveRef(mesh: THREE.Object3D) {
+  return _primitiveRefs.get(mesh) ?? null;
+}
+
+// Just the parts of the glTF JSON the patch (and gltf-compress) touch; everything
+// else (materials, extensions, extras) passes through as-is.
+export type BufferDef = {
+  uri?: string;
+  byteLength: number;
+  extensions?: { EXT_meshopt_compression?: { fallback?: boolean } };
+};
+export type MeshoptViewDef = {
+  buffer: number;
+  byteOffset?: number;
+  byteLength: number;
+  byteStride: number;
+  count: number;
+  mode: string;
+};
+export type BufferViewDef = {
+  buffer: number;
+  byteOffset?: number;
+  byteLength: number;
+  byteStride?: number;
+  target?: number;
+  extensions?: { EXT_meshopt_compression?: MeshoptViewDef };
+};
+export type AccessorDef = {
+  bufferView?: number;
+  byteOffset?: number;
+  componentType: number;
+  normalized?: boolean;
+  count: number;
+  type: string;
+  min?: number[];
+  max?: number[];
+  sparse?: {
+    indices: { bufferView: number };
+    values: { bufferView: number };
+  };
+};
+export type DracoPrimitiveDef = {
+  bufferView: number;
+  attributes: Record<string, number>;
+};
+export type PrimitiveDef = {
+  attributes: Record<string, number>;
+  indices?: number;
+  mode?: number;
+  targets?: Record<string, number>[];
+  extensions?: { KHR_draco_mesh_compression?: DracoPrimitiveDef };
+};
+type MeshDef = {
+  primitives: PrimitiveDef[];
+  weights?: number[];
+  extras?: { targetNames?: string[] };
+};
+export type GltfJson = {
+  buffers?: BufferDef[];
+  bufferViews?: BufferViewDef[];
+  accessors?: AccessorDef[];
+  meshes?: MeshDef[];
+  images?: { uri?: string; bufferView?: number; mimeType?: string }[];
+  nodes?: {
+    extensions?: {
+      EXT_mesh_gpu_instancing?: { attributes: Record<string, number> };
+    };
+  }[];
+  skins?: { inverseBindMatrices?: number }[];
+  animations?: { samplers: { input: number; output: number }[] }[];
+  extensionsUsed?: string[];
+  extensionsRequired?: string[];
+};
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+const FLOAT = 5126;
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+const DRACO = "KHR_draco_mesh_compression";
+
+// glTF attribute names three.js renames (the rest are lower-cased)
+const THREE_ATTRIBUTES: Record<string, string> = {
+  POSITION: "position",
+  NORMAL: "normal",
+  TANGENT: "tangent",
+  TEXCOORD_0: "uv",
+  TEXCOORD_1: "uv1",
+  TEXCOORD_2: "uv2",
+  TEXCOORD_3: "uv3",
+  COLOR_0: "color",
+  WEIGHTS_0: "skinWeight",
+  JOINTS_0: "skinIndex",
+};
+
+const COMPONENT_ARRAYS: Record<
+  number,
+  | typeof Int8Array
+  | typeof Uint8Array
+  | typeof Int16Array
+  | typeof Uint16Array
+  | typeof Uint32Array
+  | typeof Float32Array
+> = {
+  5120: Int8Array,
+  5121: Uint8Array,
+  5122: Int16Array,
+  5123: Uint16Array,
+  5125: Uint32Array,
+  5126: Float32Array,
+};
+const ITEM_TYPES: Record<number, string> = {
+  1: "SCALAR",
+  2: "VEC2",
+  3: "VEC3",
+  4: "VEC4",
+};
+
+// Rewrites the source .glb/.gltf so each edited primitive points at new POSITION
+// (and NORMAL / TANGENT / morph target) accessors holding the meshes' current data.
+// Untouched primitives, the node tree, skins, animations, materials and
+// extensions are written back exactly as they were. Always returns a GLB.
+export function patchGltf(
+  source: ArrayBuffer,
+  meshes: THREE.Mesh[],
+): ArrayBuffer {
+  const { json, bin } = readGltf(source);
+
+  for (const b of json.buffers ?? []) assertEmbedded(b.uri);
+  for (const img of json.images ?? []) assertEmbedded(img.uri);
+
+  // new data goes into the GLB BIN chunk, which must be buffer 0
+  if (!bin && json.buffers?.length) prependBuffer(json);
+  json.buffers ??= [{ byteLength: 0 }];
+  json.bufferViews ??= [];
+  json.accessors ??= [];
+
+  const writer = new BinWriter(bin ?? new Uint8Array(0));
+  const done = new Set<string>();
+
+  for (const mesh of meshes) {
+    const ref = getPrimitiveRef(mesh);
+    if (!ref) continue;
+
+    // several nodes can instance the same glTF mesh (and share one geometry)
+    const key = `${ref.mesh}/${ref.primitive}`;
+    if (done.has(key)) continue;
+    done.add(key);
+
+    const meshDef = json.meshes?.[ref.mesh];
+    const prim = meshDef?.primitives[ref.primitive];
+    if (!meshDef || !prim) continue;
+
+    patchPrimitive(json, writer, mesh, meshDef, prim);
+  }
+
+  // edited Draco primitives were written uncompressed
+  const dracoLeft = json.meshes?.some((m) =>
+    m.primitives.some((p) => p.extensions?.[DRACO]),
+  );
+  if (!dracoLeft) {
+    for (const key of ["extensionsUsed", "extensionsRequired"] as const) {
+      const list = json[key]?.filter((e) => e !== DRACO);
+      if (list?.length) json[key] = list;
+      else delete json[key];
+    }
+  }
+
+  json.buffers[0].byteLength = writer.length;
+  return writeGlb(json, writer.concat());
+}
+
+function patchPrimitive(
+  json: GltfJson,
+  writer: BinWriter,
+  mesh: THREE.Mesh,
+  meshDef: MeshDef,
+  prim: PrimitiveDef,
+) {
+  const geom = mesh.geometry as THREE.BufferGeometry;
+  const pos = geom.getAttribute("position");
+  const original = json.accessors![prim.attributes.POSITION];
+  if (!pos || !original) return;
+
+  if (original.count !== pos.count) {
+    throw new Error(
+      `mesh "${mesh.name}" has ${pos.count} vertices but the file has ${original.count}`,
+    );
+  }
+
+  if (positionsChanged(geom) && prim.extensions?.[DRACO]) {
+    // new positions can't go into the compressed data: write the whole
+    // primitive, as decoded, uncompressed
+    writeUncompressed(json, writer, mesh, prim);
+  } else if (positionsChanged(geom)) {
+    prim.attributes.POSITION = addVec3Accessor(json, writer, toFloat32(pos));
+
+    const normal = geom.getAttribute("normal");
+    if (normal && prim.attributes.NORMAL !== undefined) {
+      prim.attributes.NORMAL = addVec3Accessor(json, writer, toFloat32(normal));
+    }
+    // turned along with the normals
+    const tangent = geom.getAttribute("tangent");
+    if (tangent && prim.attributes.TANGENT !== undefined) {
+      prim.attributes.TANGENT = addAccessor(
+        json,
+        writer,
+        new THREE.BufferAttribute(toFloat32(tangent, 4), 4),
+        { componentType: FLOAT, count: tangent.count, type: "VEC4" },
+      );
+    }
+  }
+
+  // shape keys: rewrite the targets only if keys were added/removed
+  const names = getShapeKeyNames(mesh);
+  const fileNames = meshDef.extras?.targetNames ?? [];
+  const fileCount = prim.targets?.length ?? 0;
+  const keysChanged =
+    names.length !== fileCount ||
+    names.some((n, k) => n !== (fileNames[k] ?? String(k)));
+
+  if (keysChanged) {
+    const morphPositions = geom.morphAttributes.position ?? [];
+    const morphNormals = geom.morphAttributes.normal ?? [];
+    const base = toFloat32(pos);
+
+    prim.targets = morphPositions.map((t, k) => {
+      // glTF targets are always relative
+      const delta = toFloat32(t);
+      if (!geom.morphTargetsRelative) {
+        for (let i = 0; i < delta.length; i++) delta[i] -= base[i];
+      }
+      const target: Record<string, number> = {
+        POSITION: addVec3Accessor(json, writer, delta),
+      };
+      if (morphNormals[k]) {
+        target.NORMAL = addVec3Accessor(
+          json,
+          writer,
+          toFloat32(morphNormals[k]),
+        );
+      }
+      return target;
+    });
+    if (!prim.targets.length) delete prim.targets;
+
+    if (names.length) {
+      meshDef.extras = { ...meshDef.extras, targetNames: names };
+    } else if (meshDef.extras) {
+      delete meshDef.extras.targetNames;
+    }
+  }
+
+  // slider values become the default weights
+  const influences = mesh.morphTargetInfluences;
+  if (influences?.length) meshDef.weights = influences.slice();
+  else if (keysChanged) delete meshDef.weights;
+}
+
+function writeUncompressed(
+  json: GltfJson,
+  writer: BinWriter,
+  mesh: THREE.Mesh,
+  prim: PrimitiveDef,
+) {
+  const geom = mesh.geometry as THREE.BufferGeometry;
+  for (const name of Object.keys(prim.attributes)) {
+    const attr = geom.getAttribute(
+      THREE_ATTRIBUTES[name] ?? name.toLowerCase(),
+    );
+    if (!attr) {
+      throw new Error(
+        `mesh "${mesh.name}" lost its ${name} attribute; the Draco primitive can't be rewritten`,
+      );
+    }
+    const original = json.accessors![prim.attributes[name]];
+    prim.attributes[name] =
+      name === "POSITION" || name === "NORMAL"
+        ? addVec3Accessor(json, writer, toFloat32(attr))
+        : addAccessor(json, writer, attr, original);
+  }
+
+  const index = geom.getIndex();
+  if (index) {
+    const componentType = index.array instanceof Uint32Array ? 5125 : 5123;
+    prim.indices = addAccessor(
+      json,
+      writer,
+      index,
+      { componentType, count: index.count, type: "SCALAR" },
+      ELEMENT_ARRAY_BUFFER,
+    );
+  } else {
+    delete prim.indices;
+  }
+
+  delete prim.extensions![DRACO];
+  if (!Object.keys(prim.extensions!).length) delete prim.extensions;
+}
+
+// An attribute's raw values (normalised ones are decoded as integers) stored
+// as `like` is. Vertex data is padded so each element starts on 4 bytes, as
+// glTF requires.
+function addAccessor(
+  json: GltfJson,
+  writer: BinWriter,
+  attr: THREE.BufferAttribute | THREE.InterleavedBufferAttribute,
+  like: AccessorDef,
+  target = ARRAY_BUFFER,
+) {
+  const ArrayType = COMPONENT_ARRAYS[like.componentType];
+  const size = attr.itemSize;
+  const elementBytes = size * ArrayType.BYTES_PER_ELEMENT;
+  const stride = target === ARRAY_BUFFER ? align4(elementBytes) : elementBytes;
+
+  const bytes = new Uint8Array(attr.count * stride);
+  const element = new ArrayType(size);
+  const elementBytesView = new Uint8Array(element.buffer);
+  // getComponent() would denormalise
+  const [src, srcStride, srcOffset] =
+    attr instanceof THREE.InterleavedBufferAttribute
+      ? [attr.data.array, attr.data.stride, attr.offset]
+      : [attr.array, size, 0];
+  for (let i = 0; i < attr.count; i++) {
+    for (let c = 0; c < size; c++) {
+      element[c] = src[i * srcStride + srcOffset + c];
+    }
+    bytes.set(elementBytesView, i * stride);
+  }
+
+  const bufferView =
+    json.bufferViews!.push({
+      buffer: 0,
+      byteOffset: writer.append(bytes),
+      byteLength: bytes.length,
+      ...(stride !== elementBytes ? { byteStride: stride } : {}),
+      target,
+    }) - 1;
+
+  return (
+    json.accessors!.push({
+      bufferView,
+      componentType: like.componentType,
+      ...(like.normalized ? { normalized: true } : {}),
+      count: attr.count,
+      type: ITEM_TYPES[size] ?? like.type,
+    }) - 1
+  );
+}
+
+// true if any vertex moved away from where it was loaded
+function positionsChanged(geom: THREE.BufferGeometry) {
+  const base = getBasePositions(geom);
+  const arr = geom.getAttribute("position").array;
+  if (!base || base.length !== arr.length) return true;
+  for (let i = 0; i < arr.length; i++) {
+    if (arr[i] !== base[i]) return true;
+  }
+  return false;
+}
+
+// xyz (or `size` components) as floats regardless of how the attribute is
+// stored (interleaved, normalized...)
+function toFloat32(
+  attr: THREE.BufferAttribute | THREE.InterleavedBufferAttribute,
+  size = 3,
+) {
+  const out = new Float32Array(attr.count * size);
+  for (let i = 0; i < attr.count; i++) {
+    for (let c = 0; c < size; c++) out[i * size + c] = attr.getComponent(i, c);
+  }
+  return out;
+}
+
+function addVec3Accessor(
+  json: GltfJson,
+  writer: BinWriter,
+  values: Float32Array,
+) {
+  const byteOffset = writer.append(
+    new Uint8Array(values.buffer, values.byteOffset, values.byteLength),
+  );
+  const bufferView =
+    json.bufferViews!.push({
+      buffer: 0,
+      byteOffset,
+      byteLength: values.byteLength,
+      target: ARRAY_BUFFER,
+    }) - 1;
+
+  // min/max are required on POSITION accessors (morph targets included)
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < values.length; i++) {
+    const c = i % 3;
+    if (values[i] < min[c]) min[c] = values[i];
+    if (values[i] > max[c]) max[c] = values[i];
+  }
+  if (!values.length) {
+    min.fill(0);
+    max.fill(0);
+  }
+
+  return (
+    json.accessors!.push({
+      bufferView,
+      componentType: FLOAT,
+      count: values.length / 3,
+      type: "VEC3",
+      min,
+      max,
+    }) - 1
+  );
+}
+
+function assertEmbedded(uri: string | undefined) {
+  if (uri === undefined || uri.startsWith("data:")) return;
+  throw new Error(
+    `"${uri}" is an external file; only self-contained .glb/.gltf files can be exported`,
+  );
+}
+
+// Inserts an empty buffer 0 (for the BIN chunk) and shifts every buffer reference
+function prependBuffer(json: GltfJson) {
+  json.buffers = [{ byteLength: 0 }, ...(json.buffers ?? [])];
+  for (const view of json.bufferViews ?? []) {
+    view.buffer++;
+    const meshopt = view.extensions?.EXT_meshopt_compression;
+    if (meshopt) meshopt.buffer++;
+  }
+}
+
+export function readGltf(source: ArrayBuffer): {
+  json: GltfJson;
+  bin: Uint8Array | null;
+} {
+  const view = new DataView(source);
+  if (source.byteLength < 12 || view.getUint32(0, true) !== GLB_MAGIC) {
+    return { json: JSON.parse(new TextDecoder().decode(source)), bin: null };
+  }
+
+  let json: GltfJson | null = null;
+  let bin: Uint8Array | null = null;
+  let offset = 12;
+  while (offset + 8 <= source.byteLength) {
+    const length = view.getUint32(offset, true);
+    const type = view.getUint32(offset + 4, true);
+    const data = new Uint8Array(source, offset + 8, length);
+    if (type === CHUNK_JSON) json = JSON.parse(new TextDecoder().decode(data));
+    else if (type === CHUNK_BIN && !bin) bin = data;
+    offset += 8 + length;
+  }
+
+  if (!json) throw new Error("GLB file has no JSON chunk");
+  return { json, bin };
+}
+
+export function writeGlb(json: GltfJson, bin: Uint8Array): ArrayBuffer {
+  const jsonBytes = new TextEncoder().encode(JSON.stringify(json));
+  const jsonLength = align4(jsonBytes.length);
+  const binLength = align4(bin.length);
+  const total = 12 + 8 + jsonLength + (binLength ? 8 + binLength : 0);
+
+  const out = new ArrayBuffer(total);
+  const view = new DataView(out);
+  const bytes = new Uint8Array(out);
+
+  view.setUint32(0, GLB_MAGIC, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, total, true);
+
+  view.setUint32(12, jsonLength, true);
+  view.setUint32(16, CHUNK_JSON, true);
+  bytes.set(jsonBytes, 20);
+  bytes.fill(0x20, 20 + jsonBytes.length, 20 + jsonLength); // pad with spaces
+
+  if (binLength) {
+    const at = 20 + jsonLength;
+    view.setUint32(at, binLength, true);
+    view.setUint32(at + 4, CHUNK_BIN, true);
+    bytes.set(bin, at + 8); // zero padded
+  }
+  return out;
+}
+
+function align4(n: number) {
+  return (n + 3) & ~3;
+}
+
+// Append-only binary body, keeping every block 4-byte aligned
+export class BinWriter {
+  private chunks: Uint8Array[] = [];
+  length = 0;
+
+  constructor(initial: Uint8Array) {
+    if (initial.length) this.append(initial);
+  }
+
+  append(bytes: Uint8Array) {
+    const offset = align4(this.length);
+    if (offset > this.length) {
+      this.chunks.push(new Uint8Array(offset - this.length));
+    }
+    this.chunks.push(bytes);
+    this.length = offset + bytes.length;
+    return offset;
+  }
+
+  concat() {
+    const out = new Uint8Array(this.length);
+    let offset = 0;
+    for (const c of this.chunks) {
+      out.set(c, offset);
+      offset += c.length;
+    }
+    return out;
+  }
+}
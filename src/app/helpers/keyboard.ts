@@ -0,0 +1,5 @@
+// Tool hotkeys must not fire while the user is typing in a HUD field
+export function isEditableTarget(target: EventTarget | null) {
+  const el = target as HTMLElement | null;
+  return !!el?.closest?.("input, textarea, select, [contenteditable]");
+}
@@ -0,0 +1,289 @@
+import * as THREE from "three";
+import {
+  GLTFLoader,
+  type GLTF,
+} from "three/examples/jsm/loaders/GLTFLoader.js";
+import { OBJLoader } from "three/examples/jsm/loaders/OBJLoader.js";
+import { MTLLoader } from "three/examples/jsm/loaders/MTLLoader.js";
+import { FBXLoader } from "three/examples/jsm/loaders/FBXLoader.js";
+import { STLLoader } from "three/examples/jsm/loaders/STLLoader.js";
+import { PLYLoader } from "three/examples/jsm/loaders/PLYLoader.js";
+import { DRACOLoader } from "three/examples/jsm/loaders/DRACOLoader.js";
+import { KTX2Loader } from "three/examples/jsm/loaders/KTX2Loader.js";
+import { MeshoptDecoder } from "three/examples/jsm/libs/meshopt_decoder.module.js";
+
+export type ModelFormat = "gltf" | "obj" | "fbx" | "stl" | "ply";
+
+const FORMATS: Record<string, ModelFormat> = {
+  glb: "gltf",
+  gltf: "gltf",
+  obj: "obj",
+  fbx: "fbx",
+  stl: "stl",
+  ply: "ply",
+};
+
+export const MODEL_EXTENSIONS = Object.keys(FORMATS).map((ext) => `.${ext}`);
+
+export function modelFormat(fileName: string): ModelFormat | null {
+  const ext = fileName.toLowerCase().split(".").pop() ?? "";
+  return FORMATS[ext] ?? null;
+}
+
+// Every format ends up as one root object holding meshes, like gltf.scene.
+// `gltf` is kept for glTF sources (the export patches the original file through it).
+export type LoadedScene = {
+  format: ModelFormat;
+  root: THREE.Object3D;
+  gltf: GLTF | null;
+};
+
+// Other files dropped along with the model (a .gltf's .bin and textures, an
+// OBJ's .mtl), by lower-case path relative to the model's folder
+export type Companions = Map<string, Blob>;
+
+// The dropped file a relative URI in the model refers to: by path, or failing
+// that by file name (exporters often write absolute or stale folders)
+export function findCompanion(companions: Companions, uri: string) {
+  let path = uri.split(/[?#]/)[0].replace(/\\/g, "/");
+  try {
+    path = decodeURIComponent(path);
+  } catch {
+    // not percent-encoded
+  }
+  path = path.replace(/^(\.\/)+/, "").toLowerCase();
+
+  const exact = companions.get(path);
+  if (exact) return exact;
+  const name = path.split("/").pop();
+  const byName = [...companions].filter(([p]) => p.split("/").pop() === name);
+  return byName.length === 1 ? byName[0][1] : null;
+}
+
+// Base the loaders resolve relative URIs against; the URL modifier swaps these
+// for the dropped files
+const DROPPED = "dropped-files/";
+
+// local copies (public/) of three's decoders, so nothing is fetched from a CDN
+const DRACO_DECODER_PATH = "/draco/";
+const BASIS_TRANSCODER_PATH = "/basis/";
+
+// The decoders run in workers; one set is shared by every load
+let dracoLoader: DRACOLoader | null = null;
+let ktx2Loader: KTX2Loader | null = null;
+
+function gltfLoader(
+  manager: THREE.LoadingManager,
+  renderer?: THREE.WebGLRenderer,
+) {
+  dracoLoader ??= new DRACOLoader().setDecoderPath(DRACO_DECODER_PATH);
+  if (!ktx2Loader && renderer) {
+    ktx2Loader = new KTX2Loader()
+      .setTranscoderPath(BASIS_TRANSCODER_PATH)
+      .detectSupport(renderer);
+  }
+
+  const loader = new GLTFLoader(manager)
+    .setResourcePath(DROPPED)
+    .setDRACOLoader(dracoLoader)
+    .setMeshoptDecoder(MeshoptDecoder);
+  if (ktx2Loader) loader.setKTX2Loader(ktx2Loader);
+  return loader;
+}
+
+// Maps the loaders' requests for relative URIs to object URLs of the dropped
+// files. `missing` collects the ones that weren't dropped.
+function droppedFilesManager(companions: Companions, missing: string[]) {
+  const urls = new Map<string, string>();
+  // revoked whenever the manager is idle; a later request gets a fresh URL
+  const manager = new THREE.LoadingManager(() => {
+    for (const url of urls.values()) URL.revokeObjectURL(url);
+    urls.clear();
+  });
+
+  manager.setURLModifier((url) => {
+    if (!url.startsWith(DROPPED)) return url;
+    const uri = url.slice(DROPPED.length);
+    const file = findCompanion(companions, uri);
+    if (!file) {
+      if (!missing.includes(uri)) missing.push(uri);
+      return url;
+    }
+    let objectUrl = urls.get(uri);
+    if (!objectUrl) {
+      objectUrl = URL.createObjectURL(file);
+      urls.set(uri, objectUrl);
+    }
+    return objectUrl;
+  });
+  return manager;
+}
+
+// Loads `url` with the loader for `fileName`'s type; files the model refers to
+// are looked up in `companions`. `renderer` is needed for KTX2 textures.
+// Rejects with a readable Error for unsupported types and files the loader
+// can't parse.
+export async function loadModel(args: {
+  url: string;
+  fileName: string;
+  companions?: Companions;
+  renderer?: THREE.WebGLRenderer;
+}): Promise<LoadedScene> {
+  const { url, fileName, companions = new Map(), renderer } = args;
+  const format = modelFormat(fileName);
+  if (!format)
+    throw new Error(
+      `unsupported file type: ${fileName} (use ${MODEL_EXTENSIONS.join(", ")})`,
+    );
+
+  const missing: string[] = [];
+  const manager = droppedFilesManager(companions, missing);
+
+  let scene: LoadedScene;
+  try {
+    scene = await readScene(
+      format,
+      url,
+      fileName,
+      companions,
+      manager,
+      renderer,
+    );
+  } catch (err) {
+    throw new Error(
+      missing.length
+        ? `couldn't read ${fileName}: it refers to ${missing.join(", ")}, which wasn't dropped with it`
+        : `couldn't read ${fileName}: ${(err as Error).message}`,
+    );
+  }
+  scene.root.traverse((o) => {
+    if ((o as THREE.Mesh).isMesh) toFloatAttributes((o as THREE.Mesh).geometry);
+  });
+  return scene;
+}
+
+// the root object as `format`'s loader returns it (loadModel rewords errors)
+async function readScene(
+  format: ModelFormat,
+  url: string,
+  fileName: string,
+  companions: Companions,
+  manager: THREE.LoadingManager,
+  renderer?: THREE.WebGLRenderer,
+): Promise<LoadedScene> {
+  switch (format) {
+    case "gltf": {
+      const gltf = await gltfLoader(manager, renderer).loadAsync(url);
+      return { format, root: gltf.scene, gltf };
+    }
+    case "obj":
+      return {
+        format,
+        root: await loadObj(url, companions, manager),
+        gltf: null,
+      };
+    case "fbx":
+      return {
+        format,
+        root: await new FBXLoader(manager)
+          .setResourcePath(DROPPED)
+          .loadAsync(url),
+        gltf: null,
+      };
+    case "stl":
+    case "ply": {
+      const loader = format === "stl" ? new STLLoader() : new PLYLoader();
+      const geom = await loader.loadAsync(url);
+      return { format, root: wrapGeometry(geom, fileName), gltf: null };
+    }
+  }
+}
+
+// the attributes the editing tools write in place (three.js has no tangent
+// morph targets)
+const EDITED_ATTRIBUTES = ["position", "normal", "tangent"];
+const EDITED_MORPHS = ["position", "normal"] as const;
+
+// Quantized glTFs (KHR_mesh_quantization, e.g. from gltfpack) load as
+// normalized Int16 / Int8 data, often interleaved. The tools treat positions,
+// normals and tangents (and their morph targets) as packed float arrays, so
+// those are decoded into plain Float32 attributes before anything reads them.
+export function toFloatAttributes(geom: THREE.BufferGeometry) {
+  for (const name of EDITED_ATTRIBUTES) {
+    const attr = geom.getAttribute(name);
+    if (attr && !isPlainFloat(attr)) geom.setAttribute(name, decoded(attr));
+  }
+  for (const name of EDITED_MORPHS) {
+    const targets = geom.morphAttributes[name];
+    if (targets?.some((t) => !isPlainFloat(t))) {
+      geom.morphAttributes[name] = targets.map((t) =>
+        isPlainFloat(t) ? t : decoded(t),
+      );
+    }
+  }
+}
+
+function isPlainFloat(
+  attr: THREE.BufferAttribute | THREE.InterleavedBufferAttribute,
+): attr is THREE.BufferAttribute {
+  return (
+    attr instanceof THREE.BufferAttribute &&
+    attr.array instanceof Float32Array &&
+    !attr.normalized
+  );
+}
+
+// getComponent() denormalizes and reads through the interleaving
+function decoded(
+  attr: THREE.BufferAttribute | THREE.InterleavedBufferAttribute,
+) {
+  const size = attr.itemSize;
+  const out = new Float32Array(attr.count * size);
+  for (let i = 0; i < attr.count; i++) {
+    for (let c = 0; c < size; c++) out[i * size + c] = attr.getComponent(i, c);
+  }
+  const float = new THREE.BufferAttribute(out, size);
+  float.name = attr.name;
+  return float;
+}
+
+// Uses the .mtl named by `mtllib` (and the textures it names) when they were
+// dropped too; otherwise the OBJ loads with the loader's default material
+async function loadObj(
+  url: string,
+  companions: Companions,
+  manager: THREE.LoadingManager,
+) {
+  const text = await (await fetch(url)).text();
+  const loader = new OBJLoader(manager);
+
+  const mtlName = text.match(/^mtllib\s+(.+?)\s*$/m)?.[1];
+  if (mtlName) {
+    const mtl = findCompanion(companions, mtlName);
+    if (mtl) {
+      const materials = new MTLLoader(manager).parse(await mtl.text(), DROPPED);
+      materials.preload();
+      loader.setMaterials(materials);
+    } else {
+      console.warn(`OBJ material library ${mtlName} wasn't dropped with it`);
+    }
+  }
+  return loader.parse(text);
+}
+
+// STL / PLY hold a single geometry: give it a mesh (and a root, as the other
+// formats have), with vertex colours when the file has them
+function wrapGeometry(geom: THREE.BufferGeometry, fileName: string) {
+  if (!geom.getAttribute("normal")) geom.computeVertexNormals();
+
+  const material = new THREE.MeshStandardMaterial({
+    color: 0xcccccc,
+    vertexColors: !!geom.getAttribute("color"),
+  });
+  const mesh = new THREE.Mesh(geom, material);
+  mesh.name = fileName.replace(/\.[^.]+$/, "");
+
+  const root = new THREE.Group();
+  root.add(mesh);
+  return root;
+}
@@ -0,0 +1,304 @@
+import * as THREE from "three";
+import { MeshBVH } from "three-mesh-bvh";
+import { expandWelded, getWeldMap, syncTwins } from "./weld";
+import { getBasePositions } from "./shape-keys";
+import { buildSpatialGrid, forEachInRadius } from "./spatial-grid";
+
+export type MirrorAxis = "x" | "y" | "z";
+
+export const MIRROR_AXES: MirrorAxis[] = ["x", "y", "z"];
+
+const AXIS_INDEX: Record<MirrorAxis, number> = { x: 0, y: 1, z: 2 };
+
+// Where each logical vertex's mirror image lies across a plane through the
+// mesh's local origin (x = 0 for the X axis, ...), over canonical vertices, as
+// weights over logical vertices on the other side (CSR):
+//   sources of i -> sources[offsets[i] .. offsets[i + 1]) with weights[...]
+// One source of weight 1 when a vertex sits there (exact pair), the corners of
+// the nearest triangle otherwise (symmetric shapes are rarely tessellated
+// symmetrically), none on the plane, for seam twins, or with no surface near.
+//   users of j   -> users[userOffsets[j] .. userOffsets[j + 1]) (the reverse)
+// exact / surface / unmatched count the logical vertices off the plane.
+export type MirrorMap = {
+  onPlane: Uint8Array;
+  offsets: Uint32Array;
+  sources: Uint32Array;
+  weights: Float32Array;
+  userOffsets: Uint32Array;
+  users: Uint32Array;
+  exact: number;
+  surface: number;
+  unmatched: number;
+};
+
+const _mirrorCache = new WeakMap<
+  THREE.BufferGeometry,
+  Partial<Record<MirrorAxis, MirrorMap>>
+>();
+
+// Built the first time an axis is used rather than at load: the surface
+// lookups cost a BVH and a query per unmatched vertex, which dense scans
+// shouldn't pay for axes nobody mirrors on. The pairs come from the shape as
+// loaded (the shape-key basis) rather than whatever it has been edited into.
+export function getMirrorMap(
+  geom: THREE.BufferGeometry,
+  axis: MirrorAxis,
+): MirrorMap {
+  let maps = _mirrorCache.get(geom);
+  if (!maps) {
+    maps = {};
+    _mirrorCache.set(geom, maps);
+  }
+  return (maps[axis] ??= buildMirrorMap(geom, AXIS_INDEX[axis]));
+}
+
+// how far the mirror image may be from the other side's surface, relative to
+// the model size, before the vertex counts as having no counterpart
+const SURFACE_TOLERANCE = 0.01;
+
+function buildMirrorMap(geom: THREE.BufferGeometry, a: number): MirrorMap {
+  const pos = geom.getAttribute("position");
+  const base = getBasePositions(geom);
+  const arr =
+    base?.length === pos.count * 3 ? base : (pos.array as Float32Array);
+  const { canonical } = getWeldMap(geom);
+  const count = pos.count;
+
+  // tolerance relative to the model size; exporters rarely keep symmetric
+  // vertices bit-identical
+  const box = new THREE.Box3().setFromArray(arr);
+  const size = box.getSize(new THREE.Vector3()).length();
+  const tol = Math.max(size * 1e-4, 1e-9);
+
+  const grid = buildSpatialGrid(arr);
+  const onPlane = new Uint8Array(count);
+  // per vertex, up to three (source, weight) pairs; weight 0 = unused
+  const found = new Uint32Array(count * 3);
+  const foundWeights = new Float32Array(count * 3);
+  const surfaces: Partial<Record<1 | -1, MeshBVH | null>> = {};
+  const p: [number, number, number] = [0, 0, 0];
+  const point = new THREE.Vector3();
+  const hit = { point: new THREE.Vector3(), distance: 0, faceIndex: 0 };
+  const tri = new THREE.Triangle();
+  const bary = new THREE.Vector3();
+  let exact = 0;
+  let surface = 0;
+  let unmatched = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (canonical[i] !== i) continue;
+    if (Math.abs(arr[i * 3 + a]) <= tol) {
+      onPlane[i] = 1;
+      continue;
+    }
+
+    p[0] = arr[i * 3];
+    p[1] = arr[i * 3 + 1];
+    p[2] = arr[i * 3 + 2];
+    p[a] = -p[a];
+
+    // nearest logical vertex within the tolerance of the mirrored position
+    let best = -1;
+    let bestD = tol;
+    forEachInRadius(grid, arr, p, tol, (j, d) => {
+      if (canonical[j] !== j || d > bestD) return;
+      best = j;
+      bestD = d;
+    });
+    if (best >= 0 && best !== i) {
+      found[i * 3] = best;
+      foundWeights[i * 3] = 1;
+      exact++;
+      continue;
+    }
+
+    // otherwise the nearest point of the surface on the other side
+    const side = arr[i * 3 + a] > 0 ? -1 : 1;
+    const bvh = (surfaces[side] ??= buildSideSurface(geom, arr, a, side, tol));
+    point.set(p[0], p[1], p[2]);
+    if (!bvh?.closestPointToPoint(point, hit, 0, size * SURFACE_TOLERANCE)) {
+      unmatched++;
+      continue;
+    }
+    const index = bvh.geometry.index!;
+    const corners = [0, 1, 2].map((k) => index.getX(hit.faceIndex * 3 + k));
+    tri.a.fromArray(arr, corners[0] * 3);
+    tri.b.fromArray(arr, corners[1] * 3);
+    tri.c.fromArray(arr, corners[2] * 3);
+    if (!tri.getBarycoord(hit.point, bary)) {
+      // degenerate triangle: its first corner
+      bary.set(1, 0, 0);
+    }
+    for (let k = 0; k < 3; k++) {
+      // twins share a logical vertex; merge their weights
+      const c = canonical[corners[k]];
+      let slot = 0;
+      while (
+        slot < k &&
+        foundWeights[i * 3 + slot] &&
+        found[i * 3 + slot] !== c
+      )
+        slot++;
+      found[i * 3 + slot] = c;
+      foundWeights[i * 3 + slot] += Math.max(bary.getComponent(k), 0);
+    }
+    surface++;
+  }
+
+  // pack into CSR, dropping zero weights, and build the reverse
+  const offsets = new Uint32Array(count + 1);
+  const userOffsets = new Uint32Array(count + 1);
+  for (let i = 0; i < count; i++) {
+    let n = 0;
+    for (let k = 0; k < 3; k++) {
+      if (foundWeights[i * 3 + k] <= 0) continue;
+      n++;
+      userOffsets[found[i * 3 + k] + 1]++;
+    }
+    offsets[i + 1] = offsets[i] + n;
+  }
+  for (let j = 0; j < count; j++) userOffsets[j + 1] += userOffsets[j];
+
+  const sources = new Uint32Array(offsets[count]);
+  const weights = new Float32Array(offsets[count]);
+  const users = new Uint32Array(offsets[count]);
+  const cursor = userOffsets.slice(0, count);
+  for (let i = 0; i < count; i++) {
+    let o = offsets[i];
+    for (let k = 0; k < 3; k++) {
+      const w = foundWeights[i * 3 + k];
+      if (w <= 0) continue;
+      const j = found[i * 3 + k];
+      sources[o] = j;
+      weights[o++] = w;
+      users[cursor[j]++] = i;
+    }
+  }
+
+  return {
+    onPlane,
+    offsets,
+    sources,
+    weights,
+    userOffsets,
+    users,
+    exact,
+    surface,
+    unmatched,
+  };
+}
+
+// BVH over the triangles lying on one side of the plane (the plane itself
+// included), built over its own index since the build reorders it
+function buildSideSurface(
+  geom: THREE.BufferGeometry,
+  arr: Float32Array,
+  a: number,
+  side: 1 | -1,
+  tol: number,
+): MeshBVH | null {
+  const count = arr.length / 3;
+  const index = geom.index;
+  const triangles = index ? index.count : count;
+  const kept: number[] = [];
+  for (let t = 0; t + 2 < triangles; t += 3) {
+    let inside = true;
+    for (let k = 0; k < 3 && inside; k++) {
+      const v = index ? index.getX(t + k) : t + k;
+      inside = arr[v * 3 + a] * side >= -tol;
+    }
+    if (inside) {
+      for (let k = 0; k < 3; k++) kept.push(index ? index.getX(t + k) : t + k);
+    }
+  }
+  if (!kept.length) return null;
+
+  const g = new THREE.BufferGeometry();
+  g.setAttribute("position", new THREE.BufferAttribute(arr, 3));
+  g.setIndex(
+    new THREE.BufferAttribute(
+      count > 65535 ? new Uint32Array(kept) : new Uint16Array(kept),
+      1,
+    ),
+  );
+  return new MeshBVH(g);
+}
+
+// Makes an edit symmetric: `positions` holds the edited shape, `start` the shape
+// before the edit (both local / bind-pose). The side that moved most is the
+// source; every vertex on the other side takes the mirrored delta of its mirror
+// image (its counterpart's, or interpolated over the triangle it falls on), and
+// vertices on the plane keep their coordinate across it.
+// `moved` limits it to the vertices an update just edited: they alone pick the
+// source side and only the vertices mirroring them are written (every vertex
+// when null). Returns the vertices written.
+export function mirrorEdit(args: {
+  geom: THREE.BufferGeometry;
+  axis: MirrorAxis;
+  start: ArrayLike<number>;
+  positions: Float32Array;
+  moved?: ArrayLike<number> | null;
+}) {
+  const { geom, axis, start, positions, moved } = args;
+  const map = getMirrorMap(geom, axis);
+  const { onPlane, offsets, sources, weights, userOffsets, users } = map;
+  const a = AXIS_INDEX[axis];
+  const count = moved ? moved.length : onPlane.length;
+  const at = (k: number) => (moved ? moved[k] : k);
+
+  let positive = 0;
+  let negative = 0;
+  for (let k = 0; k < count; k++) {
+    const i = at(k);
+    if (offsets[i] === offsets[i + 1]) continue;
+    const d2 =
+      (positions[i * 3] - start[i * 3]) ** 2 +
+      (positions[i * 3 + 1] - start[i * 3 + 1]) ** 2 +
+      (positions[i * 3 + 2] - start[i * 3 + 2]) ** 2;
+    if (start[i * 3 + a] > 0) positive += d2;
+    else negative += d2;
+  }
+  const sourcePositive = positive >= negative;
+
+  // pinned to the plane first: the other side may read them
+  const touched: number[] = [];
+  for (let k = 0; k < count; k++) {
+    const m = at(k);
+    if (!onPlane[m]) continue;
+    positions[m * 3 + a] = start[m * 3 + a];
+    touched.push(m);
+  }
+
+  // the vertices on the other side that follow the moved ones
+  const targets = new Set<number>();
+  const follows = (i: number) =>
+    !onPlane[i] &&
+    offsets[i] < offsets[i + 1] &&
+    start[i * 3 + a] > 0 !== sourcePositive;
+  for (let k = 0; k < count; k++) {
+    const m = at(k);
+    if (follows(m)) targets.add(m);
+    if (!moved) continue;
+    for (let u = userOffsets[m]; u < userOffsets[m + 1]; u++) {
+      if (follows(users[u])) targets.add(users[u]);
+    }
+  }
+
+  const d = [0, 0, 0];
+  for (const i of targets) {
+    d.fill(0);
+    for (let o = offsets[i]; o < offsets[i + 1]; o++) {
+      const c = sources[o];
+      const w = weights[o];
+      for (let j = 0; j < 3; j++)
+        d[j] += w * (positions[c * 3 + j] - start[c * 3 + j]);
+    }
+    for (let j = 0; j < 3; j++)
+      positions[i * 3 + j] = start[i * 3 + j] + (j === a ? -d[j] : d[j]);
+    touched.push(i);
+  }
+
+  const weld = getWeldMap(geom);
+  syncTwins(weld, positions, touched);
+  return expandWelded(weld, touched);
+}
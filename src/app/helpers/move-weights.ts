@@ -0,0 +1,96 @@
+import { falloffWeight, type Falloff } from "./vertex-edit";
+import {
+  buildSpatialGrid,
+  forEachInRadius,
+  type SpatialGrid,
+} from "./spatial-grid";
+
+// The vertices a proportional move touches and how strongly each follows the
+// transform (1 = fully). They don't change during a drag, so they're worked out
+// once at its start and every update only transforms these.
+export type MoveWeights = { indices: Uint32Array; weights: Float64Array };
+
+// What the weights depend on, in the mesh's local space. Plain data, so it can
+// be posted to the weights worker.
+export type WeightsInput = {
+  // positions at drag start
+  positions: Float32Array;
+  // follow fully (seam twins included)
+  selected: Uint32Array;
+  pivot: [number, number, number];
+  radius: number;
+  falloff: Falloff;
+  // per-vertex distance replacing the one to the pivot ("connected" mode)
+  distances: Float32Array | null;
+};
+
+// Messages to and from move-weights.worker.ts. `key` / `version` name the
+// positions (geometry, attribute version): the worker keeps its grid for them
+// and `positions` is only sent when it doesn't have them yet.
+export type WeightsRequest = {
+  id: number;
+  key: string | null;
+  version: number;
+  input: Omit<WeightsInput, "positions"> & { positions: Float32Array | null };
+};
+
+// geometries the worker keeps positions and grids for
+export const WORKER_CACHED = 4;
+
+export type WeightsReply =
+  | { id: number; indices: Uint32Array; weights: Float64Array }
+  | { id: number; error: string };
+
+// Just the selection, at full weight
+export function selectionWeights(selected: ArrayLike<number>): MoveWeights {
+  const indices = Uint32Array.from(selected);
+  return { indices, weights: new Float64Array(indices.length).fill(1) };
+}
+
+// `grid` must be built from `input.positions` (built here when null); only the
+// vertices within the radius of the pivot are visited
+export function computeMoveWeights(
+  input: WeightsInput,
+  grid: SpatialGrid | null,
+): MoveWeights {
+  const { positions, selected, pivot, radius, falloff, distances } = input;
+  const rInv = 1 / Math.max(radius, 1e-8);
+
+  const isSelected = new Uint8Array(positions.length / 3);
+  const indices: number[] = [];
+  const weights: number[] = [];
+  for (const i of selected) {
+    if (isSelected[i]) continue;
+    isSelected[i] = 1;
+    indices.push(i);
+    weights.push(1);
+  }
+
+  const add = (i: number, d: number) => {
+    if (isSelected[i]) return;
+    const w = falloffWeight(falloff, d * rInv);
+    if (w === 0) return;
+    indices.push(i);
+    weights.push(w);
+  };
+
+  if (distances) {
+    // the walk already stopped at the radius; everything past it is Infinity
+    for (let i = 0; i < distances.length; i++) {
+      if (distances[i] < radius) add(i, distances[i]);
+    }
+  } else {
+    forEachInRadius(
+      grid ?? buildSpatialGrid(positions),
+      positions,
+      pivot,
+      radius,
+      add,
+    );
+  }
+
+  return {
+    indices: Uint32Array.from(indices),
+    weights: Float64Array.from(weights),
+  };
+}
@@ -0,0 +1,48 @@
+// Computes proportional-move weights off the main thread (see weights-worker.ts)
+import {
+  computeMoveWeights,
+  type WeightsReply,
+  type WeightsRequest,
+  WORKER_CACHED,
+} from "./move-weights";
+import { buildSpatialGrid, type SpatialGrid } from "./spatial-grid";
+
+// positions + grid of the last few geometries, kept between drags
+const cache = new Map<
+  string,
+  { version: number; positions: Float32Array; grid: SpatialGrid }
+>();
+
+function reply(message: WeightsReply) {
+  const transfer =
+    "error" in message ? [] : [message.indices.buffer, message.weights.buffer];
+  self.postMessage(message, { transfer });
+}
+
+self.addEventListener("message", (e: MessageEvent<WeightsRequest>) => {
+  const { id, key, version, input } = e.data;
+
+  let entry = key !== null ? cache.get(key) : undefined;
+  if (input.positions) {
+    entry = {
+      version,
+      positions: input.positions,
+      grid: buildSpatialGrid(input.positions),
+    };
+    if (key !== null) {
+      cache.delete(key);
+      cache.set(key, entry);
+      if (cache.size > WORKER_CACHED) cache.delete(cache.keys().next().value!);
+    }
+  }
+  if (!entry || entry.version !== version) {
+    reply({ id, error: "positions not sent" });
+    return;
+  }
+
+  const weights = computeMoveWeights(
+    { ...input, positions: entry.positions },
+    entry.grid,
+  );
+  reply({ id, ...weights });
+});
@@ -0,0 +1,260 @@
+import * as THREE from "three";
+import { getBasePositions } from "./shape-keys";
+import { getWeldMap } from "./weld";
+import { markMoved } from "./deform";
+
+// Normals (and tangents) each geometry had when it was loaded. Edits rotate
+// these by how the surface around each vertex turned since, instead of
+// recomputing smooth normals, so split normals (hard edges) and custom
+// smoothing survive.
+const _baseNormals = new WeakMap<
+  THREE.BufferGeometry,
+  { normals: Float32Array; tangents: Float32Array | null }
+>();
+
+export function rememberBaseNormals(geom: THREE.BufferGeometry) {
+  if (_baseNormals.has(geom)) return;
+  const normal = geom.getAttribute("normal");
+  if (!normal) return;
+  const tangent = geom.getAttribute("tangent");
+  const normals = readFloats(normal, 3);
+  _baseNormals.set(geom, {
+    normals,
+    tangents: tangent ? readFloats(tangent, 4) : null,
+  });
+  // built now rather than on the first drag
+  getNormalGroups(geom, normals);
+}
+
+function readFloats(
+  attr: THREE.BufferAttribute | THREE.InterleavedBufferAttribute,
+  size: number,
+) {
+  const out = new Float32Array(attr.count * size);
+  for (let i = 0; i < attr.count; i++) {
+    for (let c = 0; c < size; c++) out[i * size + c] = attr.getComponent(i, c);
+  }
+  return out;
+}
+
+// Vertices whose normals turn together, with the triangles around them (CSR):
+//   group[i] -> lowest seam twin of i with the same loaded normal, so twins
+//               along a smooth UV seam share one group while the two sides of
+//               a hard edge don't
+//   triangles around group g -> faces[offsets[g] .. offsets[g + 1])
+//   corners[f * 3 + j] -> vertex at corner j of triangle f
+type NormalGroups = {
+  group: Uint32Array;
+  offsets: Uint32Array;
+  faces: Uint32Array;
+  corners: Uint32Array;
+};
+
+const _groupsCache = new WeakMap<
+  THREE.BufferGeometry,
+  { indexVersion: number; groups: NormalGroups }
+>();
+
+function getNormalGroups(
+  geom: THREE.BufferGeometry,
+  normals: Float32Array,
+): NormalGroups {
+  const indexVersion = geom.index ? geom.index.version : -1;
+  const cached = _groupsCache.get(geom);
+  if (cached && cached.indexVersion === indexVersion) return cached.groups;
+
+  const groups = buildNormalGroups(geom, normals);
+  _groupsCache.set(geom, { indexVersion, groups });
+  return groups;
+}
+
+function buildNormalGroups(
+  geom: THREE.BufferGeometry,
+  normals: Float32Array,
+): NormalGroups {
+  const count = geom.getAttribute("position").count;
+  const weld = getWeldMap(geom);
+
+  const same = (a: number, b: number) => {
+    let dot = 0;
+    let la = 0;
+    let lb = 0;
+    for (let c = 0; c < 3; c++) {
+      dot += normals[a * 3 + c] * normals[b * 3 + c];
+      la += normals[a * 3 + c] ** 2;
+      lb += normals[b * 3 + c] ** 2;
+    }
+    return dot >= (1 - 1e-4) * Math.sqrt(la * lb);
+  };
+
+  // twins are listed in ascending order: join the first earlier one that
+  // starts a group with the same normal
+  const group = new Uint32Array(count);
+  for (let i = 0; i < count; i++) {
+    group[i] = i;
+    const c = weld.canonical[i];
+    for (let k = weld.offsets[c]; k < weld.offsets[c + 1]; k++) {
+      const m = weld.members[k];
+      if (m >= i) break;
+      if (group[m] === m && same(m, i)) {
+        group[i] = m;
+        break;
+      }
+    }
+  }
+
+  const index = geom.index;
+  const triCount = index ? Math.floor(index.count / 3) : Math.floor(count / 3);
+  const corners = new Uint32Array(triCount * 3);
+  for (let k = 0; k < corners.length; k++)
+    corners[k] = index ? index.getX(k) : k;
+
+  const offsets = new Uint32Array(count + 1);
+  for (let k = 0; k < corners.length; k++) offsets[group[corners[k]] + 1]++;
+  for (let i = 0; i < count; i++) offsets[i + 1] += offsets[i];
+
+  const faces = new Uint32Array(offsets[count]);
+  const cursor = offsets.slice(0, count);
+  for (let k = 0; k < corners.length; k++) {
+    faces[cursor[group[corners[k]]]++] = Math.floor(k / 3);
+  }
+  return { group, offsets, faces, corners };
+}
+
+const _a = new THREE.Vector3();
+const _b = new THREE.Vector3();
+const _c = new THREE.Vector3();
+const _normal = new THREE.Vector3();
+const _edge = new THREE.Vector3();
+const _basis = new THREE.Matrix4();
+const _before = new THREE.Quaternion();
+const _turn = new THREE.Quaternion();
+const _n = new THREE.Vector3();
+
+// Orientation of the surface around a group: its area-weighted normal, and its
+// first triangle's edge out of the group's vertex so a turn about the normal
+// counts too. False if the triangles are degenerate.
+function groupFrame(
+  groups: NormalGroups,
+  g: number,
+  positions: ArrayLike<number>,
+  out: THREE.Quaternion,
+) {
+  const { offsets, faces, group, corners } = groups;
+  if (offsets[g] === offsets[g + 1]) return false;
+
+  _normal.set(0, 0, 0);
+  for (let k = offsets[g]; k < offsets[g + 1]; k++) {
+    const f = faces[k];
+    _a.fromArray(positions, corners[f * 3] * 3);
+    _b.fromArray(positions, corners[f * 3 + 1] * 3).sub(_a);
+    _c.fromArray(positions, corners[f * 3 + 2] * 3).sub(_a);
+    _normal.add(_b.cross(_c));
+  }
+
+  const f = faces[offsets[g]];
+  let corner = 0;
+  while (corner < 2 && group[corners[f * 3 + corner]] !== g) corner++;
+  _a.fromArray(positions, corners[f * 3 + corner] * 3);
+  _edge.fromArray(positions, corners[f * 3 + ((corner + 1) % 3)] * 3).sub(_a);
+
+  if (_normal.lengthSq() === 0) return false;
+  _normal.normalize();
+  _edge.addScaledVector(_normal, -_normal.dot(_edge));
+  if (_edge.lengthSq() === 0) return false;
+  _edge.normalize();
+
+  _basis.makeBasis(_edge, _b.crossVectors(_normal, _edge), _normal);
+  out.setFromRotationMatrix(_basis);
+  return true;
+}
+
+// Updates the normals (and tangents) after `moved` vertices moved (every
+// vertex when null): only the triangles around them are visited. Geometries
+// without loaded normals to start from get smooth normals, as before.
+export function updateNormals(
+  geom: THREE.BufferGeometry,
+  moved: ArrayLike<number> | null,
+) {
+  if (moved && !moved.length) return;
+  const pos = geom.getAttribute("position");
+  const normal = geom.getAttribute("normal");
+  const tangent = geom.getAttribute("tangent");
+  const base = _baseNormals.get(geom);
+  const basePositions = getBasePositions(geom);
+  if (
+    !normal ||
+    !base ||
+    base.normals.length !== normal.count * 3 ||
+    basePositions?.length !== pos.count * 3
+  ) {
+    geom.computeVertexNormals();
+    return;
+  }
+
+  // tangents only if they were loaded too (and still match)
+  const tangents =
+    tangent && base.tangents?.length === tangent.count * 4
+      ? base.tangents
+      : null;
+
+  const groups = getNormalGroups(geom, base.normals);
+  const { group, corners } = groups;
+
+  // groups with a moved vertex on one of their triangles
+  let touched: Iterable<number>;
+  if (moved) {
+    const set = new Set<number>();
+    for (let m = 0; m < moved.length; m++) {
+      const g = group[moved[m]];
+      for (let k = groups.offsets[g]; k < groups.offsets[g + 1]; k++) {
+        const f = groups.faces[k];
+        set.add(group[corners[f * 3]]);
+        set.add(group[corners[f * 3 + 1]]);
+        set.add(group[corners[f * 3 + 2]]);
+      }
+    }
+    touched = set;
+  } else {
+    touched = group.filter((g, i) => g === i);
+  }
+
+  const weld = getWeldMap(geom);
+  const positions = pos.array as ArrayLike<number>;
+  const written: number[] = [];
+  for (const g of touched) {
+    // how the surface turned since load (degenerate: keep the loaded normal)
+    if (
+      groupFrame(groups, g, basePositions, _before) &&
+      groupFrame(groups, g, positions, _turn)
+    ) {
+      _turn.multiply(_before.invert());
+    } else {
+      _turn.identity();
+    }
+
+    const c = weld.canonical[g];
+    for (let k = weld.offsets[c]; k < weld.offsets[c + 1]; k++) {
+      const i = weld.members[k];
+      if (group[i] !== g) continue;
+      _n.fromArray(base.normals, i * 3).applyQuaternion(_turn);
+      normal.setXYZ(i, _n.x, _n.y, _n.z);
+      if (tangents) {
+        _n.fromArray(tangents, i * 4).applyQuaternion(_turn);
+        tangent!.setXYZW(i, _n.x, _n.y, _n.z, tangents[i * 4 + 3]);
+      }
+      written.push(i);
+    }
+  }
+
+  flagWritten(normal, moved && written);
+  if (tangents) flagWritten(tangent!, moved && written);
+}
+
+function flagWritten(
+  attr: THREE.BufferAttribute | THREE.InterleavedBufferAttribute,
+  written: number[] | null,
+) {
+  if (attr instanceof THREE.BufferAttribute) markMoved(attr, written);
+  else attr.needsUpdate = true;
+}
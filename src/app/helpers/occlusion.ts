@@ -0,0 +1,129 @@
+import * as THREE from "three";
+import { isSkinnedMesh } from "./skinning";
+
+// The editable meshes' depth as rendered from a camera, read back to the CPU
+// so vertices can be tested against what is actually in front of them.
+export type DepthSnapshot = {
+  width: number;
+  height: number;
+  // 1 - window-space depth per pixel (RGBA floats, R used; 0 = nothing drawn)
+  pixels: Float32Array;
+  camera: THREE.Camera;
+};
+
+// Renders `meshes` (and nothing else: no points, gizmos or helpers) into a float
+// target. Proxies share the geometry, skeleton and morph weights, so skinned and
+// morphed meshes occlude exactly as drawn.
+export function captureDepth(
+  gl: THREE.WebGLRenderer,
+  camera: THREE.Camera,
+  meshes: THREE.Mesh[],
+): DepthSnapshot {
+  const size = gl.getDrawingBufferSize(new THREE.Vector2());
+  const width = Math.max(1, Math.floor(size.x));
+  const height = Math.max(1, Math.floor(size.y));
+
+  const target = new THREE.WebGLRenderTarget(width, height, {
+    type: THREE.FloatType,
+  });
+  const material = new THREE.MeshDepthMaterial({
+    depthPacking: THREE.BasicDepthPacking,
+    side: THREE.DoubleSide,
+  });
+
+  const scene = new THREE.Scene();
+  for (const mesh of meshes) {
+    if (!mesh.visible) continue;
+    mesh.updateWorldMatrix(true, false);
+
+    let proxy: THREE.Mesh;
+    if (isSkinnedMesh(mesh)) {
+      const skinned = new THREE.SkinnedMesh(mesh.geometry, material);
+      skinned.bindMode = mesh.bindMode;
+      skinned.bind(mesh.skeleton, mesh.bindMatrix);
+      proxy = skinned;
+    } else {
+      proxy = new THREE.Mesh(mesh.geometry, material);
+    }
+    proxy.morphTargetInfluences = mesh.morphTargetInfluences;
+    proxy.matrixAutoUpdate = false;
+    proxy.matrix.copy(mesh.matrixWorld);
+    proxy.frustumCulled = false;
+    scene.add(proxy);
+  }
+
+  const prevTarget = gl.getRenderTarget();
+  const prevClearColor = gl.getClearColor(new THREE.Color());
+  const prevClearAlpha = gl.getClearAlpha();
+
+  const pixels = new Float32Array(width * height * 4);
+  try {
+    gl.setRenderTarget(target);
+    gl.setClearColor(0x000000, 0);
+    gl.clear();
+    gl.render(scene, camera);
+    gl.readRenderTargetPixels(target, 0, 0, width, height, pixels);
+  } finally {
+    gl.setRenderTarget(prevTarget);
+    gl.setClearColor(prevClearColor, prevClearAlpha);
+    target.dispose();
+    material.dispose();
+  }
+
+  return { width, height, pixels, camera };
+}
+
+// One snapshot per pointer event: every Points hit of the same click shares it
+const _snapshotsByEvent = new WeakMap<Event, DepthSnapshot>();
+
+export function depthSnapshotFor(
+  event: Event,
+  gl: THREE.WebGLRenderer,
+  camera: THREE.Camera,
+  meshes: THREE.Mesh[],
+) {
+  let snap = _snapshotsByEvent.get(event);
+  if (!snap) {
+    snap = captureDepth(gl, camera, meshes);
+    _snapshotsByEvent.set(event, snap);
+  }
+  return snap;
+}
+
+const _ndc = new THREE.Vector3();
+
+// true if nothing in the snapshot is in front of worldPoint
+export function isPointVisible(snap: DepthSnapshot, worldPoint: THREE.Vector3) {
+  const { width, height, pixels, camera } = snap;
+
+  _ndc.copy(worldPoint).project(camera);
+  if (Math.abs(_ndc.x) > 1 || Math.abs(_ndc.y) > 1) return false;
+  if (_ndc.z < -1 || _ndc.z > 1) return false;
+
+  // readPixels rows start at the bottom, like NDC y
+  const px = Math.min(width - 1, Math.floor((_ndc.x * 0.5 + 0.5) * width));
+  const py = Math.min(height - 1, Math.floor((_ndc.y * 0.5 + 0.5) * height));
+
+  // farthest surface around the pixel, so vertices on silhouettes and creases
+  // aren't hidden by their own neighbouring triangles
+  let surface = 0;
+  for (let y = Math.max(0, py - 1); y <= Math.min(height - 1, py + 1); y++) {
+    for (let x = Math.max(0, px - 1); x <= Math.min(width - 1, px + 1); x++) {
+      surface = Math.max(surface, 1 - pixels[(y * width + x) * 4]);
+    }
+  }
+  if (surface >= 1) return true; // background
+
+  const point = viewDistance(camera, _ndc.z * 0.5 + 0.5);
+  const front = viewDistance(camera, surface);
+  return point <= front + front * 0.002;
+}
+
+// window-space depth (0..1) -> distance along the view axis
+function viewDistance(camera: THREE.Camera, depth: number) {
+  const { near, far } = camera as THREE.PerspectiveCamera;
+  if ((camera as THREE.OrthographicCamera).isOrthographicCamera) {
+    return near + depth * (far - near);
+  }
+  return (near * far) / (far - depth * (far - near));
+}
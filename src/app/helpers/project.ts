@@ -0,0 +1,204 @@
+import * as THREE from "three";
+import { getBasePositions } from "./shape-keys";
+
+export const PROJECT_FORMAT = "mesh-deform-project";
+export const PROJECT_VERSION = 1;
+
+// The model a project was made on. `hash` (SHA-256 of the file) is how a dropped
+// file is matched to a project; `data` (base64) is only there when the model is embedded.
+export type ProjectModel = {
+  name: string;
+  size: number;
+  hash: string;
+  data?: string;
+};
+
+// One mesh's edits, keyed by its path in the scene graph. Deltas are sparse and
+// relative to the loaded (bind-pose) positions: `indices` is a base64 Uint32Array of
+// vertex indices and `deltas` a base64 Float32Array of xyz offsets, one per index.
+export type ProjectMesh = {
+  path: string;
+  vertexCount: number;
+  indices: string;
+  deltas: string;
+  selected: number[];
+};
+
+export type ProjectFile = {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+  model: ProjectModel;
+  meshes: ProjectMesh[];
+  settings: Record<string, unknown>;
+};
+
+// A loaded model as the project code sees it
+export type LoadedModel = {
+  name: string;
+  bytes: ArrayBuffer;
+  hash: string;
+};
+
+export async function hashBytes(bytes: ArrayBuffer) {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), (b) =>
+    b.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+// Stable path of `object` below `root`: node names joined by "/", with the
+// child index for unnamed nodes and a "[k]" suffix for repeated sibling names
+export function objectPath(root: THREE.Object3D, object: THREE.Object3D) {
+  const parts: string[] = [];
+  for (let o = object; o !== root && o.parent; o = o.parent) {
+    const siblings = o.parent.children;
+    if (!o.name) {
+      parts.push(`#${siblings.indexOf(o)}`);
+      continue;
+    }
+    const same = siblings.filter((s) => s.name === o.name);
+    parts.push(same.length > 1 ? `${o.name}[${same.indexOf(o)}]` : o.name);
+  }
+  return parts.reverse().join("/");
+}
+
+export function meshesByPath(root: THREE.Object3D) {
+  const map = new Map<string, THREE.Mesh>();
+  root.traverse((o) => {
+    if ((o as THREE.Mesh).isMesh) map.set(objectPath(root, o), o as THREE.Mesh);
+  });
+  return map;
+}
+
+// Sparse offsets of a mesh's positions from its loaded shape: the vertices
+// that moved and their xyz deltas (null if the geometry has no loaded shape)
+export function positionDeltas(geom: THREE.BufferGeometry) {
+  const pos = geom.getAttribute("position");
+  const base = getBasePositions(geom);
+  if (!pos || !base) return null;
+
+  const arr = pos.array as Float32Array;
+  const indices: number[] = [];
+  const deltas: number[] = [];
+  for (let i = 0; i < pos.count; i++) {
+    const ix = i * 3;
+    const dx = arr[ix] - base[ix];
+    const dy = arr[ix + 1] - base[ix + 1];
+    const dz = arr[ix + 2] - base[ix + 2];
+    if (dx === 0 && dy === 0 && dz === 0) continue;
+    indices.push(i);
+    deltas.push(dx, dy, dz);
+  }
+  return {
+    indices: Uint32Array.from(indices),
+    deltas: Float32Array.from(deltas),
+  };
+}
+
+// Snapshot of the edits on `root`. Meshes without edits or selection are left out.
+export function captureProject(args: {
+  root: THREE.Object3D;
+  model: LoadedModel;
+  getSelected: (mesh: THREE.Mesh) => number[];
+  settings: Record<string, unknown>;
+  embedModel?: boolean;
+}): ProjectFile {
+  const { root, model, getSelected, settings, embedModel } = args;
+
+  const meshes: ProjectMesh[] = [];
+  for (const [path, mesh] of meshesByPath(root)) {
+    const moved = positionDeltas(mesh.geometry);
+    if (!moved) continue;
+
+    const selected = getSelected(mesh);
+    if (!moved.indices.length && !selected.length) continue;
+    meshes.push({
+      path,
+      vertexCount: mesh.geometry.getAttribute("position").count,
+      indices: toBase64(moved.indices.buffer),
+      deltas: toBase64(moved.deltas.buffer),
+      selected,
+    });
+  }
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    model: {
+      name: model.name,
+      size: model.bytes.byteLength,
+      hash: model.hash,
+      ...(embedModel ? { data: toBase64(model.bytes) } : {}),
+    },
+    meshes,
+    settings,
+  };
+}
+
+// Validates parsed JSON as a project file; throws an Error with a readable message
+export function parseProject(json: unknown): ProjectFile {
+  const p = json as Partial<ProjectFile> | null;
+  if (!p || typeof p !== "object" || p.format !== PROJECT_FORMAT)
+    throw new Error("not a project file");
+  if (typeof p.version !== "number" || p.version > PROJECT_VERSION)
+    throw new Error(
+      `project version ${p.version} is newer than this viewer supports`,
+    );
+  if (
+    !p.model ||
+    typeof p.model.hash !== "string" ||
+    typeof p.model.name !== "string" ||
+    !Array.isArray(p.meshes)
+  )
+    throw new Error("project file is incomplete");
+  return { ...p, settings: p.settings ?? {} } as ProjectFile;
+}
+
+// Writes a mesh's saved positions (loaded shape + deltas) into `out`.
+// Returns false if the mesh doesn't have the vertex count the project expects.
+export function projectPositions(
+  mesh: THREE.Mesh,
+  saved: ProjectMesh,
+  out: Float32Array,
+) {
+  const base = getBasePositions(mesh.geometry as THREE.BufferGeometry);
+  if (
+    !base ||
+    base.length !== saved.vertexCount * 3 ||
+    out.length !== base.length
+  )
+    return false;
+
+  const indices = new Uint32Array(fromBase64(saved.indices));
+  const deltas = new Float32Array(fromBase64(saved.deltas));
+  if (deltas.length !== indices.length * 3) return false;
+
+  out.set(base);
+  for (let k = 0; k < indices.length; k++) {
+    const ix = indices[k] * 3;
+    if (ix + 2 >= out.length) return false;
+    out[ix] += deltas[k * 3];
+    out[ix + 1] += deltas[k * 3 + 1];
+    out[ix + 2] += deltas[k * 3 + 2];
+  }
+  return true;
+}
+
+export function toBase64(buffer: ArrayBuffer) {
+  const bytes = new Uint8Array(buffer);
+  let s = "";
+  // chunked: String.fromCharCode has an argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    s += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(s);
+}
+
+export function fromBase64(s: string): ArrayBuffer {
+  const bin = atob(s);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return bytes.buffer;
+}
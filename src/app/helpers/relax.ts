@@ -0,0 +1,68 @@
+import * as THREE from "three";
+import { getAdjacency } from "./topology";
+import { getWeldMap, syncTwins } from "./weld";
+
+// laplacian = plain neighbour averaging (shrinks curved regions)
+// taubin = alternating shrink / inflate steps (keeps the region's volume)
+export type RelaxMethod = "laplacian" | "taubin";
+
+// Taubin's λ|μ pair: μ slightly larger than λ, pass-band ~0.1
+const LAMBDA = 0.5;
+const MU = -0.53;
+
+// Evens out the selected logical vertices in place. Each iteration moves every
+// free vertex toward the average of its neighbours; boundary vertices (on an
+// open edge) and everything outside the selection stay fixed and anchor the
+// result. `positions` may be posed (skinned meshes). Returns the logical
+// vertices it moved.
+export function relaxVertices(args: {
+  geom: THREE.BufferGeometry;
+  positions: Float32Array;
+  selected: number[];
+  iterations: number;
+  method: RelaxMethod;
+}) {
+  const { geom, positions, selected, iterations, method } = args;
+  const { offsets, neighbors, boundary } = getAdjacency(geom);
+
+  const free = selected.filter(
+    (i) => !boundary[i] && offsets[i + 1] > offsets[i],
+  );
+  if (!free.length) return free;
+
+  // averages are taken from the previous step for every vertex at once,
+  // so the result doesn't depend on vertex order
+  const averages = new Float32Array(free.length * 3);
+  const step = (factor: number) => {
+    for (let k = 0; k < free.length; k++) {
+      const i = free[k];
+      let x = 0;
+      let y = 0;
+      let z = 0;
+      for (let e = offsets[i]; e < offsets[i + 1]; e++) {
+        const j = neighbors[e] * 3;
+        x += positions[j];
+        y += positions[j + 1];
+        z += positions[j + 2];
+      }
+      const n = offsets[i + 1] - offsets[i];
+      averages[k * 3] = x / n;
+      averages[k * 3 + 1] = y / n;
+      averages[k * 3 + 2] = z / n;
+    }
+    for (let k = 0; k < free.length; k++) {
+      const ix = free[k] * 3;
+      for (let c = 0; c < 3; c++) {
+        positions[ix + c] += (averages[k * 3 + c] - positions[ix + c]) * factor;
+      }
+    }
+  };
+
+  for (let it = 0; it < iterations; it++) {
+    step(LAMBDA);
+    if (method === "taubin") step(MU);
+  }
+
+  syncTwins(getWeldMap(geom), positions, free);
+  return free;
+}
@@ -0,0 +1,241 @@
+import * as THREE from "three";
+import { getAdjacency } from "./topology";
+import { getWeldMap, syncTwins } from "./weld";
+import { falloffWeight, type Falloff } from "./vertex-edit";
+
+export type SculptBrush = "grab" | "smooth" | "inflate" | "flatten" | "pinch";
+
+export const SCULPT_BRUSHES: SculptBrush[] = [
+  "grab",
+  "smooth",
+  "inflate",
+  "flatten",
+  "pinch",
+];
+
+// Logical (canonical) vertices inside the brush and their falloff weights
+export type BrushFootprint = {
+  indices: number[];
+  weights: number[];
+};
+
+// `positions` / `center` / `radius` are in the mesh's local space
+export function brushFootprint(
+  geom: THREE.BufferGeometry,
+  positions: ArrayLike<number>,
+  center: THREE.Vector3,
+  radius: number,
+  falloff: Falloff,
+): BrushFootprint {
+  const { canonical } = getWeldMap(geom);
+  const r2 = radius * radius;
+  const indices: number[] = [];
+  const weights: number[] = [];
+
+  for (let i = 0; i < canonical.length; i++) {
+    if (canonical[i] !== i) continue;
+    const dx = positions[i * 3] - center.x;
+    const dy = positions[i * 3 + 1] - center.y;
+    const dz = positions[i * 3 + 2] - center.z;
+    const d2 = dx * dx + dy * dy + dz * dz;
+    if (d2 > r2) continue;
+
+    const w = falloffWeight(falloff, Math.sqrt(d2) / radius);
+    if (w <= 0) continue;
+    indices.push(i);
+    weights.push(w);
+  }
+  return { indices, weights };
+}
+
+// Grab drags the footprint captured at stroke start: start + delta * weight
+export function applyGrab(
+  geom: THREE.BufferGeometry,
+  positions: Float32Array,
+  start: ArrayLike<number>,
+  footprint: BrushFootprint,
+  delta: THREE.Vector3,
+) {
+  const { indices, weights } = footprint;
+  for (let k = 0; k < indices.length; k++) {
+    const ix = indices[k] * 3;
+    const w = weights[k];
+    positions[ix] = start[ix] + delta.x * w;
+    positions[ix + 1] = start[ix + 1] + delta.y * w;
+    positions[ix + 2] = start[ix + 2] + delta.z * w;
+  }
+  syncTwins(getWeldMap(geom), positions, indices);
+}
+
+// One stamp of a surface brush at the cursor
+export function applyDab(args: {
+  brush: Exclude<SculptBrush, "grab">;
+  geom: THREE.BufferGeometry;
+  positions: Float32Array;
+  footprint: BrushFootprint;
+  center: THREE.Vector3;
+  // surface normal under the cursor (local, unit length)
+  normal: THREE.Vector3;
+  radius: number;
+  // 0..1
+  strength: number;
+  // inflate -> deflate, pinch -> spread, smooth -> sharpen, flatten -> contrast
+  invert: boolean;
+}) {
+  const { brush, geom, positions, footprint, center, normal, radius } = args;
+  const { indices, weights } = footprint;
+  if (!indices.length) return;
+
+  const sign = args.invert ? -1 : 1;
+  const strength = THREE.MathUtils.clamp(args.strength, 0, 1);
+
+  if (brush === "smooth") {
+    // Laplacian: pull each vertex toward the average of its neighbours.
+    // Targets are computed first so the result doesn't depend on vertex order.
+    const { offsets, neighbors } = getAdjacency(geom);
+    const targets = new Float32Array(indices.length * 3);
+    for (let k = 0; k < indices.length; k++) {
+      const i = indices[k];
+      const n = offsets[i + 1] - offsets[i];
+      if (!n) {
+        targets.set(positions.subarray(i * 3, i * 3 + 3), k * 3);
+        continue;
+      }
+      let x = 0;
+      let y = 0;
+      let z = 0;
+      for (let e = offsets[i]; e < offsets[i + 1]; e++) {
+        const j = neighbors[e] * 3;
+        x += positions[j];
+        y += positions[j + 1];
+        z += positions[j + 2];
+      }
+      targets[k * 3] = x / n;
+      targets[k * 3 + 1] = y / n;
+      targets[k * 3 + 2] = z / n;
+    }
+    for (let k = 0; k < indices.length; k++) {
+      const ix = indices[k] * 3;
+      const t = 0.5 * strength * weights[k] * sign;
+      for (let c = 0; c < 3; c++) {
+        positions[ix + c] += (targets[k * 3 + c] - positions[ix + c]) * t;
+      }
+    }
+  } else if (brush === "inflate") {
+    const normals = vertexNormals(geom, positions, indices);
+    const step = 0.05 * radius * strength * sign;
+    for (let k = 0; k < indices.length; k++) {
+      const ix = indices[k] * 3;
+      const d = step * weights[k];
+      positions[ix] += normals[k * 3] * d;
+      positions[ix + 1] += normals[k * 3 + 1] * d;
+      positions[ix + 2] += normals[k * 3 + 2] * d;
+    }
+  } else if (brush === "flatten") {
+    // plane through the weighted centroid, facing the average normal
+    const normals = vertexNormals(geom, positions, indices);
+    const origin = new THREE.Vector3();
+    const planeNormal = new THREE.Vector3();
+    let total = 0;
+    for (let k = 0; k < indices.length; k++) {
+      const ix = indices[k] * 3;
+      const w = weights[k];
+      origin.x += positions[ix] * w;
+      origin.y += positions[ix + 1] * w;
+      origin.z += positions[ix + 2] * w;
+      planeNormal.x += normals[k * 3] * w;
+      planeNormal.y += normals[k * 3 + 1] * w;
+      planeNormal.z += normals[k * 3 + 2] * w;
+      total += w;
+    }
+    origin.divideScalar(total);
+    if (planeNormal.lengthSq() < 1e-20) planeNormal.copy(normal);
+    planeNormal.normalize();
+
+    for (let k = 0; k < indices.length; k++) {
+      const ix = indices[k] * 3;
+      const dist =
+        (positions[ix] - origin.x) * planeNormal.x +
+        (positions[ix + 1] - origin.y) * planeNormal.y +
+        (positions[ix + 2] - origin.z) * planeNormal.z;
+      const d = dist * 0.5 * strength * weights[k] * sign;
+      positions[ix] -= planeNormal.x * d;
+      positions[ix + 1] -= planeNormal.y * d;
+      positions[ix + 2] -= planeNormal.z * d;
+    }
+  } else {
+    // pinch: pull toward the brush centre along the surface (not off it)
+    for (let k = 0; k < indices.length; k++) {
+      const ix = indices[k] * 3;
+      let dx = center.x - positions[ix];
+      let dy = center.y - positions[ix + 1];
+      let dz = center.z - positions[ix + 2];
+      const along = dx * normal.x + dy * normal.y + dz * normal.z;
+      dx -= normal.x * along;
+      dy -= normal.y * along;
+      dz -= normal.z * along;
+      const t = 0.25 * strength * weights[k] * sign;
+      positions[ix] += dx * t;
+      positions[ix + 1] += dy * t;
+      positions[ix + 2] += dz * t;
+    }
+  }
+
+  syncTwins(getWeldMap(geom), positions, indices);
+}
+
+// Area-weighted normals of the given canonical vertices, from `positions`
+// (which may be posed) rather than the geometry's normal attribute.
+// Accumulated over welded vertices so seams don't split them.
+function vertexNormals(
+  geom: THREE.BufferGeometry,
+  positions: ArrayLike<number>,
+  indices: number[],
+): Float32Array {
+  const { canonical } = getWeldMap(geom);
+  const slot = new Map<number, number>();
+  indices.forEach((i, k) => slot.set(i, k));
+
+  const out = new Float32Array(indices.length * 3);
+  const index = geom.index;
+  const count = index ? index.count : canonical.length;
+  const vertexAt = index ? (k: number) => index.getX(k) : (k: number) => k;
+
+  for (let t = 0; t + 2 < count; t += 3) {
+    const a = vertexAt(t);
+    const b = vertexAt(t + 1);
+    const c = vertexAt(t + 2);
+    const sa = slot.get(canonical[a]);
+    const sb = slot.get(canonical[b]);
+    const sc = slot.get(canonical[c]);
+    if (sa === undefined && sb === undefined && sc === undefined) continue;
+
+    const ux = positions[b * 3] - positions[a * 3];
+    const uy = positions[b * 3 + 1] - positions[a * 3 + 1];
+    const uz = positions[b * 3 + 2] - positions[a * 3 + 2];
+    const vx = positions[c * 3] - positions[a * 3];
+    const vy = positions[c * 3 + 1] - positions[a * 3 + 1];
+    const vz = positions[c * 3 + 2] - positions[a * 3 + 2];
+    // cross product: length = 2 * area, so larger faces count more
+    const nx = uy * vz - uz * vy;
+    const ny = uz * vx - ux * vz;
+    const nz = ux * vy - uy * vx;
+
+    for (const s of [sa, sb, sc]) {
+      if (s === undefined) continue;
+      out[s * 3] += nx;
+      out[s * 3 + 1] += ny;
+      out[s * 3 + 2] += nz;
+    }
+  }
+
+  for (let k = 0; k < indices.length; k++) {
+    const l = Math.hypot(out[k * 3], out[k * 3 + 1], out[k * 3 + 2]);
+    if (l > 0) {
+      out[k * 3] /= l;
+      out[k * 3 + 1] /= l;
+      out[k * 3 + 2] /= l;
+    }
+  }
+  return out;
+}
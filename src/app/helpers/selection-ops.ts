@@ -0,0 +1,107 @@
+import * as THREE from "three";
+import { getAdjacency } from "./topology";
+import { getWeldMap } from "./weld";
+
+// How a region selection combines with what was already selected
+export type SelectOp = "replace" | "add" | "subtract" | "intersect";
+
+// Shift = add, Ctrl/Cmd = subtract, both = intersect
+export function selectOpFromEvent(e: {
+  shiftKey: boolean;
+  ctrlKey: boolean;
+  metaKey: boolean;
+}): SelectOp {
+  const ctrl = e.ctrlKey || e.metaKey;
+  if (e.shiftKey && ctrl) return "intersect";
+  if (ctrl) return "subtract";
+  if (e.shiftKey) return "add";
+  return "replace";
+}
+
+export function combineSelection(
+  prev: number[],
+  region: number[],
+  op: SelectOp,
+): number[] {
+  if (op === "replace") return region;
+
+  const inRegion = new Set(region);
+  if (op === "subtract") return prev.filter((i) => !inRegion.has(i));
+  if (op === "intersect") return prev.filter((i) => inRegion.has(i));
+
+  const inPrev = new Set(prev);
+  return [...prev, ...region.filter((i) => !inPrev.has(i))];
+}
+
+// --- topology operators (indices are logical / canonical vertices) ---
+
+// every logical vertex of the geometry
+export function selectAll(geom: THREE.BufferGeometry): number[] {
+  const { canonical } = getWeldMap(geom);
+  const out: number[] = [];
+  for (let i = 0; i < canonical.length; i++)
+    if (canonical[i] === i) out.push(i);
+  return out;
+}
+
+export function invertSelection(
+  geom: THREE.BufferGeometry,
+  selected: number[],
+): number[] {
+  const sel = new Set(selected);
+  return selectAll(geom).filter((i) => !sel.has(i));
+}
+
+// adds every vertex one edge away from the selection
+export function growSelection(
+  geom: THREE.BufferGeometry,
+  selected: number[],
+): number[] {
+  const { offsets, neighbors } = getAdjacency(geom);
+  const sel = new Set(selected);
+  const out = [...selected];
+  for (const i of selected) {
+    for (let k = offsets[i]; k < offsets[i + 1]; k++) {
+      const j = neighbors[k];
+      if (sel.has(j)) continue;
+      sel.add(j);
+      out.push(j);
+    }
+  }
+  return out;
+}
+
+// drops selected vertices that have an unselected neighbour (the selection border)
+export function shrinkSelection(
+  geom: THREE.BufferGeometry,
+  selected: number[],
+): number[] {
+  const { offsets, neighbors } = getAdjacency(geom);
+  const sel = new Set(selected);
+  return selected.filter((i) => {
+    for (let k = offsets[i]; k < offsets[i + 1]; k++) {
+      if (!sel.has(neighbors[k])) return false;
+    }
+    return true;
+  });
+}
+
+// the whole connected islands containing the seed vertices
+export function selectLinked(
+  geom: THREE.BufferGeometry,
+  seeds: number[],
+): number[] {
+  const { offsets, neighbors } = getAdjacency(geom);
+  const seen = new Set(seeds);
+  const out = [...seen];
+  for (let q = 0; q < out.length; q++) {
+    const i = out[q];
+    for (let k = offsets[i]; k < offsets[i + 1]; k++) {
+      const j = neighbors[k];
+      if (seen.has(j)) continue;
+      seen.add(j);
+      out.push(j);
+    }
+  }
+  return out;
+}
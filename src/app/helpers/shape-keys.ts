@@ -0,0 +1,220 @@
+import * as THREE from "three";
+import { updateNormals } from "./normals";
+import { markMoved } from "./deform";
+
+// Positions each geometry had when the model was loaded (the shape-key basis)
+const _basePositions = new WeakMap<THREE.BufferGeometry, Float32Array>();
+
+export function rememberBasePositions(geom: THREE.BufferGeometry) {
+  if (_basePositions.has(geom)) return;
+  const pos = geom.getAttribute("position");
+  if (!pos) return;
+  _basePositions.set(geom, (pos.array as Float32Array).slice());
+}
+
+export function getBasePositions(geom: THREE.BufferGeometry) {
+  return _basePositions.get(geom) ?? null;
+}
+
+export function getShapeKeyNames(mesh: THREE.Mesh): string[] {
+  const dict = mesh.morphTargetDictionary;
+  if (!dict) return [];
+  return Object.entries(dict)
+    .sort((a, b) => a[1] - b[1])
+    .map(([name]) => name);
+}
+
+// Everything needed to put a mesh's morph setup back exactly as it was
+type MorphSnapshot = {
+  positions: Float32Array;
+  morphPositions: THREE.BufferAttribute[] | undefined;
+  morphNormals: THREE.BufferAttribute[] | undefined;
+  morphTargetsRelative: boolean;
+  influences: number[];
+};
+
+function snapshotMorphs(mesh: THREE.Mesh): MorphSnapshot {
+  const geom = mesh.geometry as THREE.BufferGeometry;
+  return {
+    positions: (geom.getAttribute("position").array as Float32Array).slice(),
+    morphPositions: geom.morphAttributes.position?.slice() as
+      THREE.BufferAttribute[] | undefined,
+    morphNormals: geom.morphAttributes.normal?.slice() as
+      THREE.BufferAttribute[] | undefined,
+    morphTargetsRelative: geom.morphTargetsRelative,
+    influences: mesh.morphTargetInfluences?.slice() ?? [],
+  };
+}
+
+function restoreMorphs(mesh: THREE.Mesh, snap: MorphSnapshot) {
+  const geom = mesh.geometry as THREE.BufferGeometry;
+  const pos = geom.getAttribute("position") as THREE.BufferAttribute;
+  const changed = writePositions(pos, snap.positions);
+
+  setMorphArray(geom, "position", snap.morphPositions?.slice());
+  setMorphArray(geom, "normal", snap.morphNormals?.slice());
+  geom.morphTargetsRelative = snap.morphTargetsRelative;
+
+  refreshMorphs(mesh, changed);
+  if (mesh.morphTargetInfluences) {
+    for (let k = 0; k < mesh.morphTargetInfluences.length; k++) {
+      mesh.morphTargetInfluences[k] = snap.influences[k] ?? 0;
+    }
+  }
+}
+
+function setMorphArray(
+  geom: THREE.BufferGeometry,
+  key: "position" | "normal",
+  value: THREE.BufferAttribute[] | undefined,
+) {
+  if (value && value.length) geom.morphAttributes[key] = value;
+  else delete geom.morphAttributes[key];
+}
+
+// Writes `values` into the positions; returns the vertices that changed
+function writePositions(pos: THREE.BufferAttribute, values: Float32Array) {
+  const arr = pos.array as Float32Array;
+  const changed: number[] = [];
+  for (let i = 0; i < pos.count; i++) {
+    const ix = i * 3;
+    if (
+      arr[ix] === values[ix] &&
+      arr[ix + 1] === values[ix + 1] &&
+      arr[ix + 2] === values[ix + 2]
+    )
+      continue;
+    arr[ix] = values[ix];
+    arr[ix + 1] = values[ix + 1];
+    arr[ix + 2] = values[ix + 2];
+    changed.push(i);
+  }
+  markMoved(pos, changed);
+  return changed;
+}
+
+// `changed`: the vertices whose positions were just rewritten
+function refreshMorphs(mesh: THREE.Mesh, changed: number[]) {
+  const geom = mesh.geometry as THREE.BufferGeometry;
+  mesh.updateMorphTargets();
+  if (!geom.morphAttributes.position?.length) {
+    mesh.morphTargetDictionary = undefined;
+    mesh.morphTargetInfluences = undefined;
+  }
+  geom.computeBoundingBox();
+  geom.computeBoundingSphere();
+  updateNormals(geom, changed);
+
+  // morph target count is part of the shader program
+  const mats = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+  for (const m of mats) m.needsUpdate = true;
+}
+
+// Shape as currently displayed: base attribute + weighted (relative) morph deltas
+function displayedPositions(mesh: THREE.Mesh): Float32Array {
+  const geom = mesh.geometry as THREE.BufferGeometry;
+  const out = (geom.getAttribute("position").array as Float32Array).slice();
+  const targets = geom.morphAttributes.position ?? [];
+  const weights = mesh.morphTargetInfluences ?? [];
+
+  for (let k = 0; k < targets.length; k++) {
+    const w = weights[k] ?? 0;
+    if (!w) continue;
+    const t = targets[k].array as Float32Array;
+    for (let i = 0; i < out.length; i++) {
+      out[i] += geom.morphTargetsRelative ? t[i] * w : (t[i] - out[i]) * w;
+    }
+  }
+  return out;
+}
+
+// Stores the displayed deformation (relative to the loaded positions) as a new
+// morph target named `name`, then resets the working positions to the base and
+// every weight to 0, so the next key can be authored from the basis.
+// Returns a function that undoes the capture.
+export function captureShapeKey(mesh: THREE.Mesh, name: string) {
+  const geom = mesh.geometry as THREE.BufferGeometry;
+  const pos = geom.getAttribute("position") as THREE.BufferAttribute;
+  const base = getBasePositions(geom);
+  if (!pos || !base) return null;
+
+  const before = snapshotMorphs(mesh);
+
+  // switch existing absolute targets (rare outside glTF) to relative deltas
+  // (new attributes, so the snapshot above still holds the absolute ones)
+  if (!geom.morphTargetsRelative && geom.morphAttributes.position?.length) {
+    const arr = pos.array as Float32Array;
+    geom.morphAttributes.position = geom.morphAttributes.position.map((t) => {
+      const rel = (t.array as Float32Array).slice();
+      for (let i = 0; i < rel.length; i++) rel[i] -= arr[i];
+      const attr = new THREE.Float32BufferAttribute(rel, 3);
+      attr.name = t.name;
+      return attr;
+    });
+    geom.morphTargetsRelative = true;
+  }
+
+  const shown = displayedPositions(mesh);
+  const delta = new Float32Array(shown.length);
+  for (let i = 0; i < delta.length; i++) delta[i] = shown[i] - base[i];
+
+  const target = new THREE.Float32BufferAttribute(delta, 3);
+  target.name = name;
+
+  const morphPositions = geom.morphAttributes.position?.slice() ?? [];
+  morphPositions.push(target);
+  geom.morphAttributes.position = morphPositions;
+
+  // morph normal arrays must line up with the position targets
+  if (geom.morphAttributes.normal?.length) {
+    const n = new THREE.Float32BufferAttribute(
+      new Float32Array(delta.length),
+      3,
+    );
+    n.name = name;
+    geom.morphAttributes.normal = [...geom.morphAttributes.normal, n];
+  }
+
+  geom.morphTargetsRelative = true;
+  const changed = writePositions(pos, base);
+
+  refreshMorphs(mesh, changed); // (leaves every influence at 0)
+
+  return () => restoreMorphs(mesh, before);
+}
+
+// Removes the morph target called `name`; returns a function that undoes it.
+export function removeShapeKey(mesh: THREE.Mesh, name: string) {
+  const geom = mesh.geometry as THREE.BufferGeometry;
+  const index = mesh.morphTargetDictionary?.[name];
+  if (index === undefined) return null;
+
+  const before = snapshotMorphs(mesh);
+  const influences = mesh.morphTargetInfluences?.slice() ?? [];
+  influences.splice(index, 1);
+
+  const without = (list: THREE.BufferAttribute[] | undefined) =>
+    list?.filter((_, k) => k !== index);
+  setMorphArray(geom, "position", without(before.morphPositions));
+  setMorphArray(geom, "normal", without(before.morphNormals));
+
+  // (the positions stay as they are)
+  refreshMorphs(mesh, []);
+  if (mesh.morphTargetInfluences) {
+    for (let k = 0; k < mesh.morphTargetInfluences.length; k++) {
+      mesh.morphTargetInfluences[k] = influences[k] ?? 0;
+    }
+  }
+
+  return () => restoreMorphs(mesh, before);
+}
+
+export function setShapeKeyWeight(
+  mesh: THREE.Mesh,
+  name: string,
+  weight: number,
+) {
+  const index = mesh.morphTargetDictionary?.[name];
+  if (index === undefined || !mesh.morphTargetInfluences) return;
+  mesh.morphTargetInfluences[index] = weight;
+}
@@ -0,0 +1,144 @@
+import * as THREE from "three";
+
+export function isSkinnedMesh(o: THREE.Object3D): o is THREE.SkinnedMesh {
+  return (o as THREE.SkinnedMesh).isSkinnedMesh === true;
+}
+
+const _v = new THREE.Vector3();
+
+function updateSkeletonWorld(mesh: THREE.SkinnedMesh) {
+  mesh.updateWorldMatrix(true, false);
+  for (const bone of mesh.skeleton.bones) bone.updateWorldMatrix(true, false);
+}
+
+// Vertex positions as drawn (morphs + skinning), in the mesh's local space.
+// Reuses `out` when it has the right length.
+export function computePosedPositions(
+  mesh: THREE.SkinnedMesh,
+  out?: Float32Array,
+): Float32Array {
+  const count = mesh.geometry.getAttribute("position").count;
+  const arr =
+    out && out.length === count * 3 ? out : new Float32Array(count * 3);
+
+  updateSkeletonWorld(mesh);
+  for (let i = 0; i < count; i++) {
+    mesh.getVertexPosition(i, _v);
+    arr[i * 3] = _v.x;
+    arr[i * 3 + 1] = _v.y;
+    arr[i * 3 + 2] = _v.z;
+  }
+  return arr;
+}
+
+// Skinned mesh state captured at drag start. Tools edit `posed` (what the user
+// sees and picks); applyPosedEdit maps the result back onto the bind pose.
+export type SkinPose = {
+  posed: Float32Array;
+  // per vertex: inverse of the linear part of its blended skin matrix
+  // (bind-pose local -> posed local), column-major 3x3
+  inverseLinear: Float32Array;
+};
+
+const _boneMat = new THREE.Matrix4();
+const _m3 = new THREE.Matrix3();
+
+export function captureSkinPose(mesh: THREE.SkinnedMesh): SkinPose {
+  const geom = mesh.geometry;
+  const count = geom.getAttribute("position").count;
+  const skinIndex = geom.getAttribute("skinIndex");
+  const skinWeight = geom.getAttribute("skinWeight");
+  const { skeleton, bindMatrix, bindMatrixInverse } = mesh;
+
+  const posed = computePosedPositions(mesh); // also updates the bone matrices
+
+  // each bone's transform in the mesh's local space
+  const boneLocal = skeleton.bones.map((bone, k) =>
+    new THREE.Matrix4()
+      .multiplyMatrices(bindMatrixInverse, bone.matrixWorld)
+      .multiply(_boneMat.copy(skeleton.boneInverses[k]).multiply(bindMatrix))
+      .elements.slice(),
+  );
+
+  const inverseLinear = new Float32Array(count * 9);
+  const e = new Array<number>(9);
+
+  for (let i = 0; i < count; i++) {
+    e.fill(0);
+    for (let c = 0; c < 4; c++) {
+      const w = skinWeight ? skinWeight.getComponent(i, c) : 0;
+      if (!w) continue;
+      const m = boneLocal[skinIndex.getComponent(i, c)];
+      if (!m) continue;
+      // upper-left 3x3 of a column-major Matrix4
+      e[0] += m[0] * w;
+      e[1] += m[1] * w;
+      e[2] += m[2] * w;
+      e[3] += m[4] * w;
+      e[4] += m[5] * w;
+      e[5] += m[6] * w;
+      e[6] += m[8] * w;
+      e[7] += m[9] * w;
+      e[8] += m[10] * w;
+    }
+
+    _m3.fromArray(e);
+    // unweighted / degenerate vertices: treat posed deltas as bind deltas
+    if (Math.abs(_m3.determinant()) < 1e-12) _m3.identity();
+    else _m3.invert();
+    inverseLinear.set(_m3.elements, i * 9);
+  }
+
+  return { posed, inverseLinear };
+}
+
+// Skinning is affine per vertex, so a posed-space delta maps back to bind pose
+// through the inverse linear part: bind' = bind + L^-1 (posed' - posed).
+// `indices` limits it to the vertices an edit touched (every vertex when null).
+export function applyPosedEdit(
+  pose: SkinPose,
+  bindStart: Float32Array,
+  posedNext: ArrayLike<number>,
+  pos: THREE.BufferAttribute,
+  indices: ArrayLike<number> | null = null,
+) {
+  const { posed, inverseLinear: inv } = pose;
+  const arr = pos.array as Float32Array;
+
+  const count = indices ? indices.length : pos.count;
+  for (let k = 0; k < count; k++) {
+    const i = indices ? indices[k] : k;
+    const ix = i * 3;
+    const dx = posedNext[ix] - posed[ix];
+    const dy = posedNext[ix + 1] - posed[ix + 1];
+    const dz = posedNext[ix + 2] - posed[ix + 2];
+
+    if (dx === 0 && dy === 0 && dz === 0) {
+      arr[ix] = bindStart[ix];
+      arr[ix + 1] = bindStart[ix + 1];
+      arr[ix + 2] = bindStart[ix + 2];
+      continue;
+    }
+
+    const m = i * 9;
+    arr[ix] = bindStart[ix] + inv[m] * dx + inv[m + 3] * dy + inv[m + 6] * dz;
+    arr[ix + 1] =
+      bindStart[ix + 1] + inv[m + 1] * dx + inv[m + 4] * dy + inv[m + 7] * dz;
+    arr[ix + 2] =
+      bindStart[ix + 2] + inv[m + 2] * dx + inv[m + 5] * dy + inv[m + 8] * dz;
+  }
+}
+
+const _box = new THREE.Box3();
+
+// SkinnedMesh keeps its own (posed) bounds for raycasting and frustum culling
+export function updateSkinnedBounds(
+  mesh: THREE.SkinnedMesh,
+  posed: Float32Array,
+) {
+  _box.setFromArray(posed);
+  mesh.boundingBox = (mesh.boundingBox ?? new THREE.Box3()).copy(_box);
+  mesh.boundingSphere = _box.getBoundingSphere(
+    mesh.boundingSphere ?? new THREE.Sphere(),
+  );
+}
@@ -0,0 +1,168 @@
+import * as THREE from "three";
+import { MeshBVH } from "three-mesh-bvh";
+import { getWeldMap } from "./weld";
+
+// grid = quantise the move to the grid cell size
+// vertex = put the pivot on the nearest vertex
+// surface = project every moved vertex onto another mesh
+export type SnapMode = "grid" | "vertex" | "surface";
+
+export const SNAP_MODES: SnapMode[] = ["grid", "vertex", "surface"];
+
+// rounds each component of a world delta to whole grid cells
+export function snapToGrid(delta: THREE.Vector3, cellSize: number) {
+  return delta.set(
+    Math.round(delta.x / cellSize) * cellSize,
+    Math.round(delta.y / cellSize) * cellSize,
+    Math.round(delta.z / cellSize) * cellSize,
+  );
+}
+
+// zeroes the components a TransformControls axis handle doesn't move
+// ("X", "YZ", ...; anything else, e.g. "XYZ" or a free drag, moves them all)
+export function constrainToAxes(delta: THREE.Vector3, axes: string | null) {
+  if (!axes || !/^[XYZ]+$/.test(axes)) return delta;
+  if (!axes.includes("X")) delta.x = 0;
+  if (!axes.includes("Y")) delta.y = 0;
+  if (!axes.includes("Z")) delta.z = 0;
+  return delta;
+}
+
+// World positions of the logical vertices of `points` that aren't in `exclude`
+// (typically the selection, which moves with the pivot). Taken once per drag,
+// so targets don't move under the pivot while it is dragged.
+export function collectSnapVertices(
+  points: THREE.Points,
+  geom: THREE.BufferGeometry,
+  exclude: number[],
+): Float32Array {
+  const pos = points.geometry.getAttribute("position") as THREE.BufferAttribute;
+  const { canonical } = getWeldMap(geom);
+  const skip = new Set(exclude);
+  points.updateWorldMatrix(true, false);
+
+  const out = new Float32Array(pos.count * 3);
+  const v = new THREE.Vector3();
+  let n = 0;
+  for (let i = 0; i < pos.count; i++) {
+    if (canonical[i] !== i || skip.has(i)) continue;
+    v.fromBufferAttribute(pos, i).applyMatrix4(points.matrixWorld);
+    out[n++] = v.x;
+    out[n++] = v.y;
+    out[n++] = v.z;
+  }
+  return out.slice(0, n);
+}
+
+// nearest of the packed xyz `targets` to p, written to out; false if there are none
+export function nearestSnapVertex(
+  targets: Float32Array[],
+  p: THREE.Vector3,
+  out: THREE.Vector3,
+) {
+  let best = Infinity;
+  for (const arr of targets) {
+    for (let k = 0; k < arr.length; k += 3) {
+      const d2 =
+        (arr[k] - p.x) ** 2 + (arr[k + 1] - p.y) ** 2 + (arr[k + 2] - p.z) ** 2;
+      if (d2 >= best) continue;
+      best = d2;
+      out.set(arr[k], arr[k + 1], arr[k + 2]);
+    }
+  }
+  return best < Infinity;
+}
+
+// A mesh's surface as surface snapping sees it: a BVH over its triangles (the
+// points' positions, so posed for skinned meshes) and where it sat in the world
+// when the drag started
+export type SnapSurface = {
+  bvh: MeshBVH;
+  matrixWorld: THREE.Matrix4;
+  inverse: THREE.Matrix4;
+  side: THREE.Side;
+};
+
+// BVHs kept per points geometry between drags. They are built over a copy of
+// the triangles (the build reorders the index) and refitted when only the
+// positions changed since.
+const _bvhCache = new WeakMap<
+  THREE.BufferGeometry,
+  { posVersion: number; indexVersion: number; bvh: MeshBVH }
+>();
+
+export function collectSnapSurface(
+  points: THREE.Points,
+  mesh: THREE.Mesh,
+): SnapSurface {
+  const pos = points.geometry.getAttribute("position") as THREE.BufferAttribute;
+  const index = (mesh.geometry as THREE.BufferGeometry).index;
+  const indexVersion = index ? index.version : -1;
+
+  let cached = _bvhCache.get(points.geometry);
+  if (cached?.indexVersion === indexVersion) {
+    if (cached.posVersion !== pos.version) {
+      const copy = cached.bvh.geometry.getAttribute("position");
+      copyPositions(pos, copy.array as Float32Array);
+      cached.bvh.refit();
+      cached.posVersion = pos.version;
+    }
+  } else {
+    const g = new THREE.BufferGeometry();
+    const copy = new Float32Array(pos.count * 3);
+    copyPositions(pos, copy);
+    g.setAttribute("position", new THREE.BufferAttribute(copy, 3));
+    if (index) g.setIndex(new THREE.BufferAttribute(index.array.slice(), 1));
+    cached = { posVersion: pos.version, indexVersion, bvh: new MeshBVH(g) };
+    _bvhCache.set(points.geometry, cached);
+  }
+
+  points.updateWorldMatrix(true, false);
+  const material = mesh.material;
+  return {
+    bvh: cached.bvh,
+    matrixWorld: points.matrixWorld.clone(),
+    inverse: points.matrixWorld.clone().invert(),
+    // as Mesh.raycast: faces the material doesn't draw aren't hit
+    side: Array.isArray(material) ? THREE.DoubleSide : material.side,
+  };
+}
+
+function copyPositions(pos: THREE.BufferAttribute, out: Float32Array) {
+  for (let i = 0; i < pos.count; i++) {
+    out[i * 3] = pos.getX(i);
+    out[i * 3 + 1] = pos.getY(i);
+    out[i * 3 + 2] = pos.getZ(i);
+  }
+}
+
+const _raycaster = new THREE.Raycaster();
+const _ndc = new THREE.Vector3();
+const _ray = new THREE.Ray();
+const _hit = new THREE.Vector3();
+
+// Moves `world` onto the nearest of `surfaces` along its view ray (the surface
+// nearest to the point, in front of or behind it). Returns false on a miss.
+export function projectOntoSurface(
+  world: THREE.Vector3,
+  camera: THREE.Camera,
+  surfaces: SnapSurface[],
+) {
+  _ndc.copy(world).project(camera);
+  _raycaster.setFromCamera(new THREE.Vector2(_ndc.x, _ndc.y), camera);
+  const origin = _raycaster.ray.origin;
+  const along = origin.distanceTo(world);
+
+  let best = Infinity;
+  for (const s of surfaces) {
+    _ray.copy(_raycaster.ray).applyMatrix4(s.inverse);
+    for (const hit of s.bvh.raycast(_ray, s.side)) {
+      _hit.copy(hit.point).applyMatrix4(s.matrixWorld);
+      const d = Math.abs(origin.distanceTo(_hit) - along);
+      if (d >= best) continue;
+      best = d;
+      world.copy(_hit);
+    }
+  }
+  return best < Infinity;
+}
@@ -0,0 +1,129 @@
+// Uniform grid over a vertex array, so a radius query only visits the vertices
+// in the cells the sphere overlaps instead of the whole mesh (CSR, like the
+// weld map):
+//   cell (x, y, z) -> c = x + dims[0] * (y + dims[1] * z)
+//   vertices of c  -> order[offsets[c] .. offsets[c + 1])
+// Plain data (no three.js), so the weights worker can build and keep one too.
+export type SpatialGrid = {
+  min: [number, number, number];
+  cellSize: number;
+  dims: [number, number, number];
+  offsets: Uint32Array;
+  order: Uint32Array;
+};
+
+// caps the offsets array at 16 MB
+const MAX_CELLS = 1 << 22;
+
+export function buildSpatialGrid(positions: ArrayLike<number>): SpatialGrid {
+  const count = Math.floor(positions.length / 3);
+
+  const min: [number, number, number] = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < count; i++) {
+    for (let k = 0; k < 3; k++) {
+      const v = positions[i * 3 + k];
+      if (v < min[k]) min[k] = v;
+      if (v > max[k]) max[k] = v;
+    }
+  }
+  if (!count) min.fill(0);
+
+  // flat (or single-vertex) meshes: give the thin axes some depth so the cell
+  // size comes out finite
+  const largest = Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2]);
+  const extent = [0, 1, 2].map((k) =>
+    Math.max(max[k] - min[k], largest * 1e-3, 1e-9),
+  );
+
+  // about one cell per vertex of the bounding box; scans lie on surfaces, so
+  // the occupied cells end up holding a few dozen each
+  let cellSize = Math.cbrt(
+    (extent[0] * extent[1] * extent[2]) / Math.max(count, 1),
+  );
+  const dimsFor = (size: number) =>
+    extent.map((e) => Math.floor(e / size) + 1) as [number, number, number];
+  let dims = dimsFor(cellSize);
+  while (dims[0] * dims[1] * dims[2] > MAX_CELLS) {
+    cellSize *= 1.5;
+    dims = dimsFor(cellSize);
+  }
+
+  const grid = {
+    min,
+    cellSize,
+    dims,
+    offsets: new Uint32Array(dims[0] * dims[1] * dims[2] + 1),
+    order: new Uint32Array(count),
+  };
+
+  // counting sort of the vertices by cell
+  const cells = new Uint32Array(count);
+  for (let i = 0; i < count; i++) {
+    const c = cellIndex(
+      grid,
+      positions[i * 3],
+      positions[i * 3 + 1],
+      positions[i * 3 + 2],
+    );
+    cells[i] = c;
+    grid.offsets[c + 1]++;
+  }
+  for (let c = 1; c < grid.offsets.length; c++)
+    grid.offsets[c] += grid.offsets[c - 1];
+
+  const cursor = grid.offsets.slice(0, -1);
+  for (let i = 0; i < count; i++) grid.order[cursor[cells[i]]++] = i;
+  return grid;
+}
+
+const cellCoord = (grid: SpatialGrid, k: number, v: number) =>
+  Math.min(
+    grid.dims[k] - 1,
+    Math.max(0, Math.floor((v - grid.min[k]) / grid.cellSize)),
+  );
+
+function cellIndex(grid: SpatialGrid, x: number, y: number, z: number) {
+  const [dx, dy] = grid.dims;
+  return (
+    cellCoord(grid, 0, x) +
+    dx * (cellCoord(grid, 1, y) + dy * cellCoord(grid, 2, z))
+  );
+}
+
+// Calls visit(i, d) for every vertex closer than `radius` to (x, y, z), with d
+// its distance. `positions` must be the ones the grid was built from.
+export function forEachInRadius(
+  grid: SpatialGrid,
+  positions: ArrayLike<number>,
+  center: [number, number, number],
+  radius: number,
+  visit: (i: number, d: number) => void,
+) {
+  const [x, y, z] = center;
+  const [dx, dy] = grid.dims;
+  const { offsets, order } = grid;
+
+  const x0 = cellCoord(grid, 0, x - radius);
+  const x1 = cellCoord(grid, 0, x + radius);
+  const y0 = cellCoord(grid, 1, y - radius);
+  const y1 = cellCoord(grid, 1, y + radius);
+  const z0 = cellCoord(grid, 2, z - radius);
+  const z1 = cellCoord(grid, 2, z + radius);
+
+  for (let cz = z0; cz <= z1; cz++) {
+    for (let cy = y0; cy <= y1; cy++) {
+      const row = dx * (cy + dy * cz);
+      for (let c = row + x0; c <= row + x1; c++) {
+        for (let k = offsets[c]; k < offsets[c + 1]; k++) {
+          const i = order[k];
+          const vx = positions[i * 3] - x;
+          const vy = positions[i * 3 + 1] - y;
+          const vz = positions[i * 3 + 2] - z;
+          const d = Math.sqrt(vx * vx + vy * vy + vz * vz);
+          if (d < radius) visit(i, d);
+        }
+      }
+    }
+  }
+}
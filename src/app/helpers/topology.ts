@@ -0,0 +1,264 @@
+import * as THREE from "three";
+import { getWeldMap } from "./weld";
+
+// Vertex adjacency built from a geometry's triangles, in CSR layout:
+// the neighbours of vertex i are neighbors[offsets[i] .. offsets[i + 1]).
+// Built over welded (canonical) vertices so seams don't cut the surface apart;
+// non-canonical twins have no neighbours of their own.
+export type Adjacency = {
+  offsets: Uint32Array;
+  neighbors: Uint32Array;
+  // 1 for vertices on an open edge (an edge used by a single triangle)
+  boundary: Uint8Array;
+};
+
+const _adjacencyCache = new WeakMap<
+  THREE.BufferGeometry,
+  { indexVersion: number; count: number; adjacency: Adjacency }
+>();
+
+// Cached per geometry; only rebuilt if the index buffer (topology) changes, not positions.
+export function getAdjacency(geom: THREE.BufferGeometry): Adjacency {
+  const pos = geom.getAttribute("position");
+  const count = pos.count;
+  const indexVersion = geom.index ? geom.index.version : -1;
+
+  const cached = _adjacencyCache.get(geom);
+  if (
+    cached &&
+    cached.indexVersion === indexVersion &&
+    cached.count === count
+  ) {
+    return cached.adjacency;
+  }
+
+  const adjacency = buildAdjacency(geom, count);
+  _adjacencyCache.set(geom, { indexVersion, count, adjacency });
+  return adjacency;
+}
+
+function buildAdjacency(geom: THREE.BufferGeometry, count: number): Adjacency {
+  const index = geom.index;
+  const { canonical } = getWeldMap(geom);
+  const triCount = index ? Math.floor(index.count / 3) : Math.floor(count / 3);
+  const vertexAt = index
+    ? (k: number) => canonical[index.getX(k)]
+    : (k: number) => canonical[k];
+
+  // 1) count edge endpoints per vertex (with duplicates)
+  const degree = new Uint32Array(count + 1);
+  for (let t = 0; t < triCount; t++) {
+    degree[vertexAt(t * 3 + 0)] += 2;
+    degree[vertexAt(t * 3 + 1)] += 2;
+    degree[vertexAt(t * 3 + 2)] += 2;
+  }
+
+  const rawOffsets = new Uint32Array(count + 1);
+  for (let i = 0; i < count; i++) rawOffsets[i + 1] = rawOffsets[i] + degree[i];
+
+  // 2) fill both directions of every triangle edge
+  const raw = new Uint32Array(rawOffsets[count]);
+  const cursor = rawOffsets.slice(0, count);
+  const link = (a: number, b: number) => {
+    raw[cursor[a]++] = b;
+    raw[cursor[b]++] = a;
+  };
+  for (let t = 0; t < triCount; t++) {
+    const a = vertexAt(t * 3 + 0);
+    const b = vertexAt(t * 3 + 1);
+    const c = vertexAt(t * 3 + 2);
+    link(a, b);
+    link(b, c);
+    link(c, a);
+  }
+
+  // 3) dedupe each vertex's neighbour list (shared edges appear twice);
+  // a neighbour listed only once means the edge between them is open
+  const offsets = new Uint32Array(count + 1);
+  const neighbors = new Uint32Array(raw.length);
+  const boundary = new Uint8Array(count);
+  let n = 0;
+  for (let i = 0; i < count; i++) {
+    offsets[i] = n;
+    const list = raw.subarray(rawOffsets[i], rawOffsets[i + 1]).sort();
+    for (let k = 0; k < list.length; k++) {
+      if (k > 0 && list[k] === list[k - 1]) continue;
+      if (list[k] === i) continue; // degenerate triangles
+      if (list[k + 1] !== list[k]) boundary[i] = 1;
+      neighbors[n++] = list[k];
+    }
+  }
+  offsets[count] = n;
+
+  return { offsets, neighbors: neighbors.slice(0, n), boundary };
+}
+
+// Shortest distance along mesh edges from the seed vertices (Dijkstra).
+// Vertices farther than maxDist (or not connected) stay at Infinity.
+export function geodesicDistances(args: {
+  adjacency: Adjacency;
+  positions: ArrayLike<number>; // xyz per vertex
+  seeds: number[];
+  seedDistances?: number[]; // initial distance per seed (default 0)
+  maxDist: number;
+}): Float32Array {
+  const { adjacency, positions, seeds, seedDistances, maxDist } = args;
+  const { offsets, neighbors } = adjacency;
+
+  const count = offsets.length - 1;
+  const dist = new Float32Array(count).fill(Infinity);
+  const heap = new MinHeap();
+
+  for (let k = 0; k < seeds.length; k++) {
+    const i = seeds[k];
+    const d = seedDistances?.[k] ?? 0;
+    if (d < dist[i]) {
+      dist[i] = d;
+      heap.push(i, d);
+    }
+  }
+
+  while (heap.size) {
+    const d = heap.topKey();
+    const i = heap.pop();
+    if (d > dist[i]) continue; // stale entry
+
+    const ix = i * 3;
+    const x = positions[ix];
+    const y = positions[ix + 1];
+    const z = positions[ix + 2];
+
+    for (let k = offsets[i]; k < offsets[i + 1]; k++) {
+      const j = neighbors[k];
+      const jx = j * 3;
+      const nd =
+        d +
+        Math.hypot(
+          positions[jx] - x,
+          positions[jx + 1] - y,
+          positions[jx + 2] - z,
+        );
+      if (nd < dist[j] && nd <= maxDist) {
+        dist[j] = nd;
+        heap.push(j, nd);
+      }
+    }
+  }
+
+  return dist;
+}
+
+// Binary min-heap of (vertex, key) with lazy deletion (stale entries are skipped by the caller)
+class MinHeap {
+  private items: number[] = [];
+  private keys: number[] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  topKey() {
+    return this.keys[0];
+  }
+
+  push(item: number, key: number) {
+    const items = this.items;
+    const keys = this.keys;
+    let i = items.length;
+    items.push(item);
+    keys.push(key);
+
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (keys[parent] <= key) break;
+      items[i] = items[parent];
+      keys[i] = keys[parent];
+      i = parent;
+    }
+    items[i] = item;
+    keys[i] = key;
+  }
+
+  pop() {
+    const items = this.items;
+    const keys = this.keys;
+    const top = items[0];
+
+    const lastItem = items.pop()!;
+    const lastKey = keys.pop()!;
+    const n = items.length;
+    if (n === 0) return top;
+
+    let i = 0;
+    while (true) {
+      const l = i * 2 + 1;
+      if (l >= n) break;
+      const r = l + 1;
+      const c = r < n && keys[r] < keys[l] ? r : l;
+      if (keys[c] >= lastKey) break;
+      items[i] = items[c];
+      keys[i] = keys[c];
+      i = c;
+    }
+    items[i] = lastItem;
+    keys[i] = lastKey;
+    return top;
+  }
+}
+
+// Distances for the "connected" proportional mode: measured along edges from the
+// selection, or from the vertex nearest the pivot when nothing is selected
+// (e.g. influence points).
+export function connectedDistances(args: {
+  geom: THREE.BufferGeometry;
+  positions: Float32Array;
+  selected: number[];
+  pivotLocal: THREE.Vector3;
+  maxDist: number;
+}): Float32Array {
+  const { geom, positions, selected, pivotLocal, maxDist } = args;
+  const adjacency = getAdjacency(geom);
+  const { canonical } = getWeldMap(geom);
+
+  // the walk happens on canonical vertices; seam twins copy their distance
+  const withTwins = (dist: Float32Array) => {
+    for (let i = 0; i < dist.length; i++) dist[i] = dist[canonical[i]];
+    return dist;
+  };
+
+  if (selected.length) {
+    return withTwins(
+      geodesicDistances({
+        adjacency,
+        positions,
+        seeds: selected.map((i) => canonical[i]),
+        maxDist,
+      }),
+    );
+  }
+
+  let nearest = -1;
+  let nearestDist = Infinity;
+  for (let i = 0; i < positions.length / 3; i++) {
+    const ix = i * 3;
+    const d = Math.hypot(
+      positions[ix] - pivotLocal.x,
+      positions[ix + 1] - pivotLocal.y,
+      positions[ix + 2] - pivotLocal.z,
+    );
+    if (d < nearestDist) {
+      nearestDist = d;
+      nearest = i;
+    }
+  }
+
+  return withTwins(
+    geodesicDistances({
+      adjacency,
+      positions,
+      seeds: nearest < 0 ? [] : [canonical[nearest]],
+      seedDistances: [nearestDist],
+      maxDist,
+    }),
+  );
+}
@@ -0,0 +1,16 @@
+import * as THREE from "three";
+
+// userData flag on the group the viewer uses to centre and scale the loaded
+// model. Everything inside it is in the model's own units.
+export const VIEWER_FRAMING = "viewerFraming";
+
+const _scale = new THREE.Vector3();
+
+// World units per model unit at `object` (the framing scale), so typed values,
+// readouts and snapping can use the model's units rather than the viewport's
+export function worldPerModelUnit(object: THREE.Object3D): number {
+  for (let o: THREE.Object3D | null = object; o; o = o.parent) {
+    if (o.userData[VIEWER_FRAMING]) return o.getWorldScale(_scale).x;
+  }
+  return 1;
+}
@@ -13,37 +13,137 @@ export function computeDeltaLocal(mesh: THREE.Object3D, deltaWorld: THREE.Vector
   return _deltaLocal.copy(deltaWorld).applyMatrix3(_mat3);
 }
 
+// Gizmo change since drag start, all in WORLD space. Rotation and scale are about pivotWorld.
+export type PivotTransform = {
+  pivotWorld: THREE.Vector3;
+  translationWorld: THREE.Vector3;
+  rotationWorld: THREE.Quaternion;
+  scaleWorld: THREE.Vector3;
+};
+
+// PivotTransform resolved against one mesh, ready to be applied per vertex
+export type LocalPivotTransform = {
+  deltaLocal: THREE.Vector3;
+  // only set when the gizmo rotated/scaled; pure translations stay in local space
+  affine: {
+    toWorld: THREE.Matrix4;
+    toLocal: THREE.Matrix4;
+    pivotWorld: THREE.Vector3;
+    translationWorld: THREE.Vector3;
+    rotationWorld: THREE.Quaternion;
+    scaleWorld: THREE.Vector3;
+  } | null;
+};
+
+export function computeLocalTransform(
+  mesh: THREE.Object3D,
+  t: PivotTransform,
+): LocalPivotTransform {
+  const deltaLocal = computeDeltaLocal(mesh, t.translationWorld).clone();
+
+  const isTranslation =
+    t.rotationWorld.equals(_identityQuat) && t.scaleWorld.equals(_unitScale);
+  if (isTranslation) return { deltaLocal, affine: null };
+
+  return {
+    deltaLocal,
+    affine: {
+      toWorld: mesh.matrixWorld.clone(),
+      toLocal: mesh.matrixWorld.clone().invert(),
+      pivotWorld: t.pivotWorld.clone(),
+      translationWorld: t.translationWorld.clone(),
+      rotationWorld: t.rotationWorld.clone(),
+      scaleWorld: t.scaleWorld.clone(),
+    },
+  };
+}
+
+const _identityQuat = new THREE.Quaternion();
+const _unitScale = new THREE.Vector3(1, 1, 1);
+const _wQuat = new THREE.Quaternion();
+const _wScale = new THREE.Vector3();
+const _p = new THREE.Vector3();
+
+// Applies the transform at strength w (0..1) to one local-space point.
+// Falloff scales the translation, the rotation angle and the scale factor alike.
+export function transformVertex(
+  t: LocalPivotTransform,
+  x: number,
+  y: number,
+  z: number,
+  w: number,
+  out: THREE.Vector3,
+) {
+  const a = t.affine;
+  if (!a) {
+    return out.set(
+      x + t.deltaLocal.x * w,
+      y + t.deltaLocal.y * w,
+      z + t.deltaLocal.z * w,
+    );
+  }
+
+  _wQuat.slerpQuaternions(_identityQuat, a.rotationWorld, w);
+  _wScale.copy(_unitScale).lerp(a.scaleWorld, w);
+
+  _p.set(x, y, z).applyMatrix4(a.toWorld).sub(a.pivotWorld);
+  _p.multiply(_wScale).applyQuaternion(_wQuat);
+  _p.add(a.pivotWorld).addScaledVector(a.translationWorld, w);
+
+  return out.copy(_p).applyMatrix4(a.toLocal);
+}
+
+const _out = new THREE.Vector3();
+
 export function applyNonProportionalMove(
   pos: THREE.BufferAttribute,
   start: Float32Array,
   selected: number[],
-  deltaLocal: THREE.Vector3,
+  transform: LocalPivotTransform,
 ) {
   for (const i of selected) {
     const ix = i * 3;
-    pos.setXYZ(
-      i,
-      start[ix + 0] + deltaLocal.x,
-      start[ix + 1] + deltaLocal.y,
-      start[ix + 2] + deltaLocal.z,
+    transformVertex(
+      transform,
+      start[ix + 0],
+      start[ix + 1],
+      start[ix + 2],
+      1,
+      _out,
     );
+    pos.setXYZ(i, _out.x, _out.y, _out.z);
   }
 }
 
-type Falloff = "smooth" | "gaussian" | "sharp";
+export type Falloff = "smooth" | "gaussian" | "sharp";
 
-export function applyProportionalMove(args: {
-  mesh: THREE.Object3D;
-  pos: THREE.BufferAttribute;
-  start: Float32Array;
-  selected: number[];
-  pivotLocal: THREE.Vector3;
-  radiusWorld: number;
-  falloff: Falloff;
-  deltaLocal: THREE.Vector3;
-}) {
-  const { mesh, pos, start, selected, pivotLocal, radiusWorld, falloff, deltaLocal } = args;
+// Weight (1 -> 0) at normalized distance t (0 = centre, 1 = edge of the radius)
+export function falloffWeight(falloff: Falloff, t: number) {
+  if (t <= 0) return 1;
+  if (t >= 1) return 0;
+
+  if (falloff === "sharp") {
+    const x = 1 - t;
+    return x * x * x * x;
+  }
+
+  if (falloff === "gaussian") {
+    const sharpness = 3;
+    const a = Math.exp(-sharpness * t * t);
+    const edge = Math.exp(-sharpness);
+    return (a - edge) / (1 - edge); // normalized to hit 0 at edge
+  }
+
+  // smooth (default)
+  const x = 1 - t;
+  return x * x * (3 - 2 * x);
+}
 
+// euclidean = straight-line distance to the pivot
+// connected = distance along mesh edges from the selection (only surface-connected vertices move)
+export type ProportionalMode = "euclidean" | "connected";
+
+export function worldRadiusToLocal(mesh: THREE.Object3D, radiusWorld: number) {
   // world->local scale approximation so radius feels consistent in world units
   const m = mesh.matrixWorld.elements;
   const sx = Math.hypot(m[0], m[1], m[2]);
@@ -51,52 +151,41 @@ export function applyProportionalMove(args: {
   const sz = Math.hypot(m[8], m[9], m[10]);
   const sAvg = (sx + sy + sz) / 3;
 
-  const radiusLocal = radiusWorld / Math.max(sAvg, 1e-8);
-  const rInv = 1 / Math.max(radiusLocal, 1e-8);
-
-  const selSet = new Set<number>(selected);
-
-  const falloffFn = (t: number) => {
-    if (t <= 0) return 1;
-    if (t >= 1) return 0;
-
-    if (falloff === "sharp") {
-      const x = 1 - t;
-      return x * x * x * x;
-    }
-
-    if (falloff === "gaussian") {
-      const sharpness = 3;
-      const a = Math.exp(-sharpness * t * t);
-      const edge = Math.exp(-sharpness);
-      return (a - edge) / (1 - edge); // normalized to hit 0 at edge
-    }
+  return radiusWorld / Math.max(sAvg, 1e-8);
+}
 
-    // smooth (default)
-    const x = 1 - t;
-    return x * x * (3 - 2 * x);
-  };
+// Point on a triangle from barycentric coords, read from the CURRENT positions
+export function barycentricPoint(
+  pos: THREE.BufferAttribute,
+  face: [number, number, number],
+  bary: [number, number, number],
+  out: THREE.Vector3,
+) {
+  const [a, b, c] = face;
+  const [u, v, w] = bary;
+  return out.set(
+    pos.getX(a) * u + pos.getX(b) * v + pos.getX(c) * w,
+    pos.getY(a) * u + pos.getY(b) * v + pos.getY(c) * w,
+    pos.getZ(a) * u + pos.getZ(b) * v + pos.getZ(c) * w,
+  );
+}
 
+// Moves the listed vertices from `start` by the transform at their weight
+// (see move-weights.ts); every other vertex is left as it is
+export function applyWeightedMove(
+  pos: THREE.BufferAttribute,
+  start: Float32Array,
+  indices: ArrayLike<number>,
+  weights: ArrayLike<number>,
+  transform: LocalPivotTransform,
+) {
   const arr = pos.array as Float32Array;
 
-  for (let i = 0; i < pos.count; i++) {
-    const ix = i * 3;
-    const sx0 = start[ix + 0];
-    const sy0 = start[ix + 1];
-    const sz0 = start[ix + 2];
-
-    let w = selSet.has(i) ? 1 : 0;
-
-    if (w === 0) {
-      const vx = sx0 - pivotLocal.x;
-      const vy = sy0 - pivotLocal.y;
-      const vz = sz0 - pivotLocal.z;
-      const d = Math.sqrt(vx * vx + vy * vy + vz * vz);
-      if (d < radiusLocal) w = falloffFn(d * rInv);
-    }
-
-    arr[ix + 0] = sx0 + deltaLocal.x * w;
-    arr[ix + 1] = sy0 + deltaLocal.y * w;
-    arr[ix + 2] = sz0 + deltaLocal.z * w;
+  for (let k = 0; k < indices.length; k++) {
+    const ix = indices[k] * 3;
+    transformVertex(transform, start[ix + 0], start[ix + 1], start[ix + 2], weights[k], _out);
+    arr[ix + 0] = _out.x;
+    arr[ix + 1] = _out.y;
+    arr[ix + 2] = _out.z;
   }
 }
@@ -0,0 +1,118 @@
+import {
+  computeMoveWeights,
+  type MoveWeights,
+  type WeightsInput,
+  type WeightsReply,
+  type WeightsRequest,
+  WORKER_CACHED,
+} from "./move-weights";
+import { buildSpatialGrid, type SpatialGrid } from "./spatial-grid";
+
+// Below this many vertices the weights take less time to compute here than to
+// post to the worker and back
+const WORKER_MIN_VERTICES = 50_000;
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<
+  number,
+  { input: WeightsInput; resolve: (weights: MoveWeights) => void }
+>();
+// geometry key -> positions version the worker has
+const sent = new Map<string, number>();
+// geometry key -> grid of the weights computed here (the worker keeps its own)
+const grids = new Map<string, { version: number; grid: SpatialGrid }>();
+
+// Euclidean moves on big meshes; "connected" mode already walked only the
+// vertices within the radius
+export function runsOffThread(input: WeightsInput) {
+  return (
+    !input.distances &&
+    input.positions.length / 3 >= WORKER_MIN_VERTICES &&
+    typeof Worker !== "undefined"
+  );
+}
+
+// Weights computed on this thread, with the spatial grid kept per geometry
+// like the worker does: `key` / `version` as for requestMoveWeights
+export function computeMoveWeightsHere(
+  input: WeightsInput,
+  key: string | null,
+  version: number,
+): MoveWeights {
+  // "connected" mode doesn't use the grid
+  if (key === null || input.distances) return computeMoveWeights(input, null);
+
+  let cached = grids.get(key);
+  if (cached?.version !== version) {
+    cached = { version, grid: buildSpatialGrid(input.positions) };
+  }
+  grids.delete(key);
+  grids.set(key, cached);
+  if (grids.size > WORKER_CACHED) grids.delete(grids.keys().next().value!);
+  return computeMoveWeights(input, cached.grid);
+}
+
+// Anything the worker can't answer is computed here instead
+function fallBack(id: number) {
+  const job = pending.get(id);
+  pending.delete(id);
+  job?.resolve(computeMoveWeights(job.input, null));
+}
+
+function getWorker() {
+  if (worker) return worker;
+  worker = new Worker(new URL("./move-weights.worker.ts", import.meta.url));
+  worker.addEventListener("message", (e: MessageEvent<WeightsReply>) => {
+    const data = e.data;
+    if ("error" in data) {
+      sent.clear();
+      fallBack(data.id);
+      return;
+    }
+    const job = pending.get(data.id);
+    pending.delete(data.id);
+    job?.resolve({ indices: data.indices, weights: data.weights });
+  });
+  worker.addEventListener("error", (e) => {
+    console.error("Weights worker error:", e.message);
+    worker?.terminate();
+    worker = null;
+    sent.clear();
+    for (const id of [...pending.keys()]) fallBack(id);
+  });
+  return worker;
+}
+
+// Weights computed by the worker. `key` names the positions' geometry (null
+// when they aren't its own, e.g. posed) and `version` their state, so the
+// worker keeps its spatial grid between drags and the positions are only
+// copied over when they changed. The input stays usable: the worker gets a
+// copy (transferred, as are the weights it sends back).
+export function requestMoveWeights(
+  input: WeightsInput,
+  key: string | null,
+  version: number,
+): Promise<MoveWeights> {
+  return new Promise((resolve) => {
+    const id = nextId++;
+    pending.set(id, { input, resolve });
+
+    const known = key !== null && sent.get(key) === version;
+    const positions = known ? null : input.positions.slice();
+    // the worker keeps the same ones
+    if (key !== null && positions) {
+      sent.delete(key);
+      sent.set(key, version);
+      if (sent.size > WORKER_CACHED) sent.delete(sent.keys().next().value!);
+    }
+
+    const request: WeightsRequest = {
+      id,
+      key,
+      version,
+      input: { ...input, positions },
+    };
+    getWorker().postMessage(request, positions ? [positions.buffer] : []);
+  });
+}
@@ -0,0 +1,96 @@
+import * as THREE from "three";
+
+// Coincident vertices (glTF splits them along UV / normal seams) grouped into one
+// logical vertex. The geometry itself is never modified.
+//   canonical[i]  -> lowest vertex index sharing i's position (i itself if unique)
+//   members of canonical c -> members[offsets[c] .. offsets[c + 1])
+export type WeldMap = {
+  canonical: Uint32Array;
+  offsets: Uint32Array;
+  members: Uint32Array;
+};
+
+const _weldCache = new WeakMap<THREE.BufferGeometry, WeldMap>();
+
+// Built once per geometry from the positions it was loaded with. Twins are always
+// moved together afterwards, so they stay coincident and the map stays valid.
+export function getWeldMap(geom: THREE.BufferGeometry): WeldMap {
+  const cached = _weldCache.get(geom);
+  if (cached) return cached;
+
+  const weld = buildWeldMap(geom);
+  _weldCache.set(geom, weld);
+  return weld;
+}
+
+function buildWeldMap(geom: THREE.BufferGeometry): WeldMap {
+  const pos = geom.getAttribute("position");
+  const count = pos.count;
+
+  // tolerance relative to the model size, so it works regardless of units
+  if (!geom.boundingBox) geom.computeBoundingBox();
+  const size = geom.boundingBox!.getSize(new THREE.Vector3()).length();
+  const tol = Math.max(size * 1e-6, 1e-12);
+  const inv = 1 / tol;
+
+  const canonical = new Uint32Array(count);
+  const seen = new Map<string, number>();
+  for (let i = 0; i < count; i++) {
+    const key = `${Math.round(pos.getX(i) * inv)},${Math.round(
+      pos.getY(i) * inv,
+    )},${Math.round(pos.getZ(i) * inv)}`;
+
+    const first = seen.get(key);
+    if (first === undefined) {
+      seen.set(key, i);
+      canonical[i] = i;
+    } else {
+      canonical[i] = first;
+    }
+  }
+
+  // group members by canonical index (CSR)
+  const offsets = new Uint32Array(count + 1);
+  for (let i = 0; i < count; i++) offsets[canonical[i] + 1]++;
+  for (let i = 0; i < count; i++) offsets[i + 1] += offsets[i];
+
+  const cursor = offsets.slice(0, count);
+  const members = new Uint32Array(count);
+  for (let i = 0; i < count; i++) members[cursor[canonical[i]]++] = i;
+
+  return { canonical, offsets, members };
+}
+
+export function isCanonical(weld: WeldMap, i: number) {
+  return weld.canonical[i] === i;
+}
+
+// logical (canonical) vertices -> every physical vertex sharing their positions
+export function expandWelded(weld: WeldMap, indices: number[]): number[] {
+  const out: number[] = [];
+  for (const i of indices) {
+    const c = weld.canonical[i];
+    for (let k = weld.offsets[c]; k < weld.offsets[c + 1]; k++) {
+      out.push(weld.members[k]);
+    }
+  }
+  return out;
+}
+
+// copies each canonical vertex's position onto its seam twins, so an edit made
+// on logical vertices doesn't tear the surface along seams
+export function syncTwins(
+  weld: WeldMap,
+  positions: Float32Array,
+  indices: number[],
+) {
+  for (const c of indices) {
+    for (let k = weld.offsets[c]; k < weld.offsets[c + 1]; k++) {
+      const m = weld.members[k];
+      if (m === c) continue;
+      positions[m * 3] = positions[c * 3];
+      positions[m * 3 + 1] = positions[c * 3 + 1];
+      positions[m * 3 + 2] = positions[c * 3 + 2];
+    }
+  }
+}
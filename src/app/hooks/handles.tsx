@@ -0,0 +1,131 @@
+"use client";
+
+import React, {
+  createContext,
+  useContext,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import type { Falloff, ProportionalMode } from "../helpers/vertex-edit";
+import { useHistory } from "./history";
+
+// Persistent influence point sitting on a mesh surface.
+// Stored as barycentric coords on a triangle so it follows the surface when vertices move.
+export type InfluenceHandle = {
+  id: string;
+  name: string;
+  meshId: string; // PointsEntry id (mesh uuid)
+  face: [number, number, number]; // vertex indices of the triangle it was dropped on
+  bary: [number, number, number];
+  radius: number; // world units
+  falloff: Falloff;
+  proportionalMode: ProportionalMode;
+};
+
+type HandlesApi = {
+  handles: InfluenceHandle[];
+  selectedId: string | null;
+
+  // add/remove are recorded in the undo history
+  add: (handle: Omit<InfluenceHandle, "id" | "name">) => InfluenceHandle;
+  remove: (id: string) => void;
+  update: (id: string, patch: Partial<Omit<InfluenceHandle, "id">>) => void;
+  select: (id: string | null) => void;
+  clear: () => void;
+};
+
+const HandlesContext = createContext<HandlesApi | null>(null);
+
+let nextHandleNumber = 1;
+
+export function HandlesProvider({ children }: { children: React.ReactNode }) {
+  const history = useHistory();
+  const [handles, setHandles] = useState<InfluenceHandle[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // mirrors `handles` synchronously so actions can read the latest list
+  const handlesRef = useRef<InfluenceHandle[]>([]);
+
+  const actions = useMemo(() => {
+    const set = (next: InfluenceHandle[]) => {
+      handlesRef.current = next;
+      setHandles(next);
+    };
+
+    const insert = (handle: InfluenceHandle, index: number) => {
+      const next = handlesRef.current.filter((h) => h.id !== handle.id);
+      next.splice(index, 0, handle);
+      set(next);
+    };
+
+    const drop = (id: string) => {
+      set(handlesRef.current.filter((h) => h.id !== id));
+      setSelectedId((s) => (s === id ? null : s));
+    };
+
+    return {
+      add: (h: Omit<InfluenceHandle, "id" | "name">) => {
+        const n = nextHandleNumber++;
+        const handle: InfluenceHandle = {
+          ...h,
+          id: `handle-${n}-${Math.random().toString(36).slice(2, 8)}`,
+          name: `point ${n}`,
+        };
+        const index = handlesRef.current.length;
+        insert(handle, index);
+
+        history.record(
+          {
+            undo: () => drop(handle.id),
+            redo: () => insert(handle, index),
+            bytes: 128,
+          },
+          "add influence point",
+        );
+        return handle;
+      },
+      remove: (id: string) => {
+        const index = handlesRef.current.findIndex((h) => h.id === id);
+        if (index < 0) return;
+        const handle = handlesRef.current[index];
+        drop(id);
+
+        history.record(
+          {
+            undo: () => insert(handle, index),
+            redo: () => drop(id),
+            bytes: 128,
+          },
+          "delete influence point",
+        );
+      },
+      update: (id: string, patch: Partial<Omit<InfluenceHandle, "id">>) => {
+        set(
+          handlesRef.current.map((h) => (h.id === id ? { ...h, ...patch } : h)),
+        );
+      },
+      select: (id: string | null) => setSelectedId(id),
+      clear: () => {
+        set([]);
+        setSelectedId(null);
+      },
+    };
+  }, [history]);
+
+  const api = useMemo<HandlesApi>(
+    () => ({ handles, selectedId, ...actions }),
+    [handles, selectedId, actions],
+  );
+
+  return (
+    <HandlesContext.Provider value={api}>{children}</HandlesContext.Provider>
+  );
+}
+
+export function useHandles() {
+  const ctx = useContext(HandlesContext);
+  if (!ctx)
+    throw new Error("useHandles must be used inside <HandlesProvider />");
+  return ctx;
+}
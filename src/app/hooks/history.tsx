@@ -0,0 +1,304 @@
+"use client";
+
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useSyncExternalStore,
+} from "react";
+import * as THREE from "three";
+import { isEditableTarget } from "../helpers/keyboard";
+import { markMoved } from "../helpers/deform";
+
+// A single reversible edit (e.g. one mesh's vertex positions, one entry's selection)
+export type HistoryChange = {
+  undo: () => void;
+  redo: () => void;
+  // approximate memory held by this change (used for the history limit)
+  bytes: number;
+};
+
+type Transaction = {
+  label: string;
+  changes: HistoryChange[];
+  bytes: number;
+};
+
+export type HistoryState = {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+};
+
+type HistoryApi = {
+  // group every change recorded until commit() into one undo step
+  begin: (label: string) => void;
+  commit: () => void;
+  // begin + fn + commit
+  transact: (label: string, fn: () => void) => void;
+
+  // add a change to the open transaction (or as its own step if none is open)
+  record: (change: HistoryChange, label?: string) => void;
+
+  undo: () => void;
+  redo: () => void;
+  clear: () => void;
+
+  // true while undo/redo is replaying changes (tools must not record then)
+  isApplying: () => boolean;
+
+  subscribe: (listener: () => void) => () => void;
+  getState: () => HistoryState;
+};
+
+const EMPTY_STATE: HistoryState = {
+  canUndo: false,
+  canRedo: false,
+  undoLabel: null,
+  redoLabel: null,
+};
+
+const HistoryContext = createContext<HistoryApi | null>(null);
+
+export function HistoryProvider({
+  children,
+  maxSteps = 100,
+  maxBytes = 64 * 1024 * 1024,
+}: {
+  children: React.ReactNode;
+  maxSteps?: number;
+  maxBytes?: number;
+}) {
+  const undoStackRef = useRef<Transaction[]>([]);
+  const redoStackRef = useRef<Transaction[]>([]);
+  const openRef = useRef<Transaction | null>(null);
+  const depthRef = useRef(0);
+  const applyingRef = useRef(false);
+  const listenersRef = useRef(new Set<() => void>());
+  const stateRef = useRef<HistoryState>(EMPTY_STATE);
+
+  const api = useMemo<HistoryApi>(() => {
+    const notify = () => {
+      const undoStack = undoStackRef.current;
+      const redoStack = redoStackRef.current;
+      stateRef.current = {
+        canUndo: undoStack.length > 0,
+        canRedo: redoStack.length > 0,
+        undoLabel: undoStack[undoStack.length - 1]?.label ?? null,
+        redoLabel: redoStack[redoStack.length - 1]?.label ?? null,
+      };
+      for (const l of listenersRef.current) l();
+    };
+
+    // drop the oldest steps until we're back within both limits
+    const enforceLimits = () => {
+      const stack = undoStackRef.current;
+      let total = 0;
+      for (const t of stack) total += t.bytes;
+
+      while (
+        stack.length > maxSteps ||
+        (stack.length > 1 && total > maxBytes)
+      ) {
+        const dropped = stack.shift();
+        total -= dropped?.bytes ?? 0;
+      }
+    };
+
+    const push = (t: Transaction) => {
+      if (!t.changes.length) return;
+      undoStackRef.current.push(t);
+      redoStackRef.current = []; // a new edit invalidates the redo branch
+      enforceLimits();
+      notify();
+    };
+
+    const begin = (label: string) => {
+      if (depthRef.current === 0) {
+        openRef.current = { label, changes: [], bytes: 0 };
+      }
+      depthRef.current++;
+    };
+
+    const commit = () => {
+      if (depthRef.current === 0) return;
+      depthRef.current--;
+      if (depthRef.current > 0) return;
+
+      const t = openRef.current;
+      openRef.current = null;
+      if (t) push(t);
+    };
+
+    return {
+      begin,
+      commit,
+      transact: (label, fn) => {
+        begin(label);
+        try {
+          fn();
+        } finally {
+          commit();
+        }
+      },
+
+      record: (change, label = "edit") => {
+        if (applyingRef.current) return;
+
+        const open = openRef.current;
+        if (open) {
+          open.changes.push(change);
+          open.bytes += change.bytes;
+          return;
+        }
+
+        push({ label, changes: [change], bytes: change.bytes });
+      },
+
+      undo: () => {
+        if (openRef.current) return; // don't undo in the middle of a drag
+        const t = undoStackRef.current.pop();
+        if (!t) return;
+
+        applyingRef.current = true;
+        try {
+          for (let i = t.changes.length - 1; i >= 0; i--) t.changes[i].undo();
+        } finally {
+          applyingRef.current = false;
+        }
+
+        redoStackRef.current.push(t);
+        notify();
+      },
+
+      redo: () => {
+        if (openRef.current) return;
+        const t = redoStackRef.current.pop();
+        if (!t) return;
+
+        applyingRef.current = true;
+        try {
+          for (const c of t.changes) c.redo();
+        } finally {
+          applyingRef.current = false;
+        }
+
+        undoStackRef.current.push(t);
+        notify();
+      },
+
+      clear: () => {
+        undoStackRef.current = [];
+        redoStackRef.current = [];
+        openRef.current = null;
+        depthRef.current = 0;
+        notify();
+      },
+
+      isApplying: () => applyingRef.current,
+
+      subscribe: (listener) => {
+        listenersRef.current.add(listener);
+        return () => listenersRef.current.delete(listener);
+      },
+      getState: () => stateRef.current,
+    };
+  }, [maxSteps, maxBytes]);
+
+  // Ctrl+Z = undo, Ctrl+Shift+Z / Ctrl+Y = redo (Cmd on macOS)
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      if (isEditableTarget(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === "z") {
+        e.preventDefault();
+        if (e.shiftKey) api.redo();
+        else api.undo();
+      } else if (key === "y") {
+        e.preventDefault();
+        api.redo();
+      }
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [api]);
+
+  return (
+    <HistoryContext.Provider value={api}>{children}</HistoryContext.Provider>
+  );
+}
+
+export function useHistory() {
+  const ctx = useContext(HistoryContext);
+  if (!ctx)
+    throw new Error("useHistory must be used inside <HistoryProvider />");
+  return ctx;
+}
+
+// re-renders when the undo/redo stacks change (for HUD buttons)
+export function useHistoryState() {
+  const history = useHistory();
+  return useSyncExternalStore(
+    history.subscribe,
+    history.getState,
+    () => EMPTY_STATE,
+  );
+}
+
+// Sparse before/after record of one position attribute, so a small edit on a
+// dense mesh only stores the vertices that actually moved.
+export function createPositionChange(args: {
+  pos: THREE.BufferAttribute;
+  before: Float32Array;
+  after: Float32Array;
+  // called with the vertices written
+  onApplied: (changed: ArrayLike<number>) => void;
+}): HistoryChange | null {
+  const { pos, before, after, onApplied } = args;
+
+  const changed: number[] = [];
+  const count = Math.min(before.length, after.length) / 3;
+  for (let i = 0; i < count; i++) {
+    const ix = i * 3;
+    if (
+      before[ix] !== after[ix] ||
+      before[ix + 1] !== after[ix + 1] ||
+      before[ix + 2] !== after[ix + 2]
+    )
+      changed.push(i);
+  }
+  if (!changed.length) return null;
+
+  const indices = Uint32Array.from(changed);
+  const prev = new Float32Array(indices.length * 3);
+  const next = new Float32Array(indices.length * 3);
+  for (let k = 0; k < indices.length; k++) {
+    const ix = indices[k] * 3;
+    prev.set(before.subarray(ix, ix + 3), k * 3);
+    next.set(after.subarray(ix, ix + 3), k * 3);
+  }
+
+  const write = (values: Float32Array) => {
+    const arr = pos.array as Float32Array;
+    for (let k = 0; k < indices.length; k++) {
+      const ix = indices[k] * 3;
+      arr[ix + 0] = values[k * 3 + 0];
+      arr[ix + 1] = values[k * 3 + 1];
+      arr[ix + 2] = values[k * 3 + 2];
+    }
+    markMoved(pos, indices);
+    onApplied(indices);
+  };
+
+  return {
+    undo: () => write(prev),
+    redo: () => write(next),
+    bytes: indices.byteLength + prev.byteLength + next.byteLength,
+  };
+}
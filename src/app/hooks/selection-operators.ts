@@ -0,0 +1,60 @@
+"use client";
+
+import { useCallback } from "react";
+import { useSelectionRegistry } from "./selection";
+import { useHistory } from "./history";
+import { useToolSettings } from "./tool-settings";
+import {
+  growSelection,
+  invertSelection,
+  selectAll,
+  selectLinked,
+  shrinkSelection,
+} from "../helpers/selection-ops";
+
+export type SelectionOperator =
+  "all" | "none" | "invert" | "grow" | "shrink" | "linked";
+
+const LABELS: Record<SelectionOperator, string> = {
+  all: "select all",
+  none: "select none",
+  invert: "invert selection",
+  grow: "grow selection",
+  shrink: "shrink selection",
+  linked: "select linked",
+};
+
+// Runs a topology selection operator on every registered mesh, or only on the
+// active one (the mesh last clicked) when the scope setting says so.
+// One undo step per call.
+export function useSelectionOperators() {
+  const registry = useSelectionRegistry();
+  const history = useHistory();
+  const { selectScope } = useToolSettings().settings;
+
+  return useCallback(
+    (op: SelectionOperator) => {
+      const active = registry.getActive();
+      const entries =
+        selectScope === "active" && active ? [active] : registry.entries();
+
+      history.transact(LABELS[op], () => {
+        for (const entry of entries) {
+          const geom = entry.mesh.geometry;
+          const selected = entry.getSelected();
+
+          if (op === "all") entry.setSelected(selectAll(geom));
+          else if (op === "none") entry.setSelected([]);
+          else if (op === "invert")
+            entry.setSelected(invertSelection(geom, selected));
+          else if (op === "grow")
+            entry.setSelected(growSelection(geom, selected));
+          else if (op === "shrink")
+            entry.setSelected(shrinkSelection(geom, selected));
+          else entry.setSelected(selectLinked(geom, selected));
+        }
+      });
+    },
+    [registry, history, selectScope],
+  );
+}
@@ -1,9 +1,17 @@
 import React, { createContext, useContext, useMemo, useRef } from "react";
 import * as THREE from "three";
+import type {
+  Falloff,
+  PivotTransform,
+  ProportionalMode,
+} from "../helpers/vertex-edit";
+import type { RelaxMethod } from "../helpers/relax";
 
-type PointsEntry = {
+export type PointsEntry = {
   id: string;
   points: THREE.Points;
+  // the edited mesh (its own raycast is disabled so clicks reach the points)
+  mesh: THREE.Mesh;
 
   // current selection access (so tools can read selection at drag time)
   getSelected: () => number[];
@@ -11,37 +19,68 @@ type PointsEntry = {
   // update selection
   setSelected: React.Dispatch<React.SetStateAction<number[]>>;
 
-  // move currently-selected vertices by a delta expressed in WORLD space
-  moveSelected: (deltaWorld: THREE.Vector3) => void;
+  // deform currently-selected vertices by the gizmo change since drag start (WORLD space)
+  moveSelected: (
+    transform: PivotTransform,
+    opts?: {
+      // surface snapping: may move a selected vertex's world position; true if it did
+      project?: (world: THREE.Vector3) => boolean;
+    },
+  ) => void;
 
   beginMove?: (opts: {
     pivotWorld: THREE.Vector3;
     proportionalEnabled: boolean;
     proportionalRadiusWorld: number;
-    falloff: "smooth" | "gaussian" | "sharp";
+    falloff: Falloff;
+    proportionalMode?: ProportionalMode;
+    // false = only the proportional falloff around the pivot moves vertices (influence points)
+    affectSelection?: boolean;
   }) => void;
   endMove?: () => void;
 
+  // sculpt strokes: returns the positions the brush edits in place (mesh-local,
+  // posed for skinned meshes); call updateStroke after each dab with the logical
+  // vertices it edited (null = any). One undo step.
+  beginStroke?: () => Float32Array;
+  updateStroke?: (edited?: number[] | null) => void;
+  endStroke?: () => void;
+
+  // evens out the selected vertices (one undo step; ignored mid-drag)
+  relaxSelected?: (opts: { iterations: number; method: RelaxMethod }) => void;
+
   // clear selection (used by page / tools)
   clearSelection?: () => void;
+
+  // positions were changed outside a drag (undo, shape keys, ...): refresh bounds/normals/overlays
+  // (`changed` = the vertices that moved, null = any)
+  refresh?: (changed?: ArrayLike<number> | null) => void;
 };
 
 type SelectionRegistry = {
   register: (entry: PointsEntry) => () => void;
   entries: () => PointsEntry[];
   clearAllSelections: () => void;
+
+  // the mesh the user last picked on (target of "active mesh" operators)
+  setActive: (id: string | null) => void;
+  getActive: () => PointsEntry | null;
 };
 
 const SelectionContext = createContext<SelectionRegistry | null>(null);
 
 export function SelectionProvider({ children }: { children: React.ReactNode }) {
   const mapRef = useRef(new Map<string, PointsEntry>());
+  const activeIdRef = useRef<string | null>(null);
 
   const api = useMemo<SelectionRegistry>(() => {
     return {
       register: (entry) => {
         mapRef.current.set(entry.id, entry);
-        return () => mapRef.current.delete(entry.id);
+        return () => {
+          mapRef.current.delete(entry.id);
+          if (activeIdRef.current === entry.id) activeIdRef.current = null;
+        };
       },
       entries: () => Array.from(mapRef.current.values()),
       clearAllSelections: () => {
@@ -49,6 +88,13 @@ export function SelectionProvider({ children }: { children: React.ReactNode }) {
           entry.clearSelection?.();
         }
       },
+      setActive: (id) => {
+        activeIdRef.current = id;
+      },
+      getActive: () =>
+        activeIdRef.current
+          ? (mapRef.current.get(activeIdRef.current) ?? null)
+          : null,
     };
   }, []);
 
@@ -0,0 +1,136 @@
+"use client";
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useMemo,
+  useState,
+} from "react";
+import * as THREE from "three";
+import { useSelectionRegistry } from "./selection";
+import { useHistory } from "./history";
+import {
+  captureShapeKey,
+  getShapeKeyNames,
+  removeShapeKey,
+  setShapeKeyWeight,
+} from "../helpers/shape-keys";
+
+// A model-level shape key: one morph target with this name on every editable mesh
+export type ShapeKey = { name: string; weight: number };
+
+type ShapeKeysApi = {
+  keys: ShapeKey[];
+  // capture the displayed deformation of every mesh as a new key
+  capture: (name?: string) => void;
+  remove: (name: string) => void;
+  setWeight: (name: string, weight: number) => void;
+  // re-read keys from the meshes (after load / undo)
+  sync: () => void;
+};
+
+const ShapeKeysContext = createContext<ShapeKeysApi | null>(null);
+
+export function ShapeKeysProvider({ children }: { children: React.ReactNode }) {
+  const registry = useSelectionRegistry();
+  const history = useHistory();
+  const [keys, setKeys] = useState<ShapeKey[]>([]);
+
+  const meshes = useCallback(
+    () => registry.entries().map((e) => e.mesh),
+    [registry],
+  );
+
+  const sync = useCallback(() => {
+    const found = new Map<string, number>();
+    for (const mesh of meshes()) {
+      for (const name of getShapeKeyNames(mesh)) {
+        if (found.has(name)) continue;
+        const index = mesh.morphTargetDictionary![name];
+        found.set(name, mesh.morphTargetInfluences?.[index] ?? 0);
+      }
+    }
+    setKeys(Array.from(found, ([name, weight]) => ({ name, weight })));
+  }, [meshes]);
+
+  // (the shape-key helpers already updated the normals of what they moved)
+  const refreshAll = useCallback(() => {
+    for (const entry of registry.entries()) entry.refresh?.([]);
+    sync();
+  }, [registry, sync]);
+
+  // run a mesh mutation that returns an undo fn, as one undoable step
+  const applyToAll = useCallback(
+    (label: string, fn: (mesh: THREE.Mesh) => (() => void) | null) => {
+      let undos: (() => void)[] = [];
+      const run = () => {
+        undos = [];
+        for (const mesh of meshes()) {
+          const undo = fn(mesh);
+          if (undo) undos.push(undo);
+        }
+        refreshAll();
+      };
+
+      run();
+      if (!undos.length) return;
+
+      history.record(
+        {
+          undo: () => {
+            for (let i = undos.length - 1; i >= 0; i--) undos[i]();
+            refreshAll();
+          },
+          redo: run,
+          bytes: meshes().reduce(
+            (n, m) => n + m.geometry.getAttribute("position").array.length * 8,
+            0,
+          ),
+        },
+        label,
+      );
+    },
+    [meshes, refreshAll, history],
+  );
+
+  const api = useMemo<ShapeKeysApi>(
+    () => ({
+      keys,
+      capture: (name) => {
+        const taken = new Set(keys.map((k) => k.name));
+        let keyName = name?.trim() || `Key ${keys.length + 1}`;
+        for (let n = 2; taken.has(keyName); n++) {
+          keyName = `${name?.trim() || "Key"} ${n}`;
+        }
+        applyToAll("capture shape key", (mesh) =>
+          captureShapeKey(mesh, keyName),
+        );
+      },
+      remove: (name) => {
+        applyToAll("delete shape key", (mesh) => removeShapeKey(mesh, name));
+      },
+      setWeight: (name, weight) => {
+        for (const mesh of meshes()) setShapeKeyWeight(mesh, name, weight);
+        setKeys((prev) =>
+          prev.map((k) => (k.name === name ? { ...k, weight } : k)),
+        );
+      },
+      sync,
+    }),
+    [keys, applyToAll, meshes, sync],
+  );
+
+  return (
+    <ShapeKeysContext.Provider value={api}>
+      {children}
+    </ShapeKeysContext.Provider>
+  );
+}
+
+export function useShapeKeys() {
+  const ctx = useContext(ShapeKeysContext);
+  if (!ctx)
+    throw new Error("useShapeKeys must be used inside <ShapeKeysProvider />");
+  return ctx;
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import { isEditableTarget } from "../helpers/keyboard";
+import type { Falloff, ProportionalMode } from "../helpers/vertex-edit";
+import type { SculptBrush } from "../helpers/sculpt";
+import type { RelaxMethod } from "../helpers/relax";
+import type { MirrorAxis } from "../helpers/mirror";
+import type { SnapMode } from "../helpers/snapping";
+
+// Settings shared by several tools (and shown in the HUD)
+export type ToolSettings = {
+  // false = only vertices visible from the camera can be picked / box selected
+  xray: boolean;
+  // circle select brush radius, in screen pixels
+  brushRadius: number;
+  // what select all / none / invert / grow / shrink / linked act on
+  selectScope: "all" | "active";
+
+  // proportional editing for the move tools (O / shift+O, mouse wheel = radius)
+  proportionalEnabled: boolean;
+  // world units
+  proportionalRadius: number;
+  proportionalMode: ProportionalMode;
+  proportionalFalloff: Falloff;
+
+  // snapping for gizmo moves; holding Ctrl during a drag inverts snapEnabled
+  snapEnabled: boolean;
+  snapMode: SnapMode;
+
+  // sculpt mode: dragging on a mesh strokes the brush instead of selecting
+  sculptEnabled: boolean;
+  sculptBrush: SculptBrush;
+  // world units
+  sculptRadius: number;
+  // 0..1
+  sculptStrength: number;
+  sculptFalloff: Falloff;
+
+  // relax command on the selection
+  relaxIterations: number;
+  relaxMethod: RelaxMethod;
+
+  // symmetric editing across the mesh's local X / Y / Z plane (null = off)
+  mirrorAxis: MirrorAxis | null;
+};
+
+const DEFAULT_SETTINGS: ToolSettings = {
+  xray: false,
+  brushRadius: 25,
+  selectScope: "all",
+  proportionalEnabled: true,
+  proportionalRadius: 0.25,
+  proportionalMode: "euclidean",
+  proportionalFalloff: "smooth",
+  snapEnabled: false,
+  snapMode: "grid",
+  sculptEnabled: false,
+  sculptBrush: "grab",
+  sculptRadius: 0.15,
+  sculptStrength: 0.5,
+  sculptFalloff: "smooth",
+  relaxIterations: 10,
+  relaxMethod: "taubin",
+  mirrorAxis: null,
+};
+
+// The known settings from saved data (a project file), with the same kind of
+// value as the default; anything else is dropped
+export function pickToolSettings(
+  raw: Record<string, unknown>,
+): Partial<ToolSettings> {
+  const picked: Record<string, unknown> = {};
+  for (const [key, def] of Object.entries(DEFAULT_SETTINGS)) {
+    const value = raw[key];
+    const ok =
+      def === null
+        ? value === null || typeof value === "string"
+        : typeof value === typeof def;
+    if (ok) picked[key] = value;
+  }
+  return picked as Partial<ToolSettings>;
+}
+
+// Proportional radius after one mouse-wheel step (scroll down shrinks it)
+export function nextProportionalRadius(radius: number, deltaY: number) {
+  const next = radius * (deltaY > 0 ? 0.9 : 1.1);
+  return Math.min(Math.max(next, 0.001), 1000);
+}
+
+type ToolSettingsApi = {
+  settings: ToolSettings;
+  update: (patch: Partial<ToolSettings>) => void;
+};
+
+const ToolSettingsContext = createContext<ToolSettingsApi | null>(null);
+
+export function ToolSettingsProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const [settings, setSettings] = useState<ToolSettings>(DEFAULT_SETTINGS);
+
+  // Alt+Z toggles x-ray, Shift+Tab snapping (as in Blender)
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target)) return;
+      if (e.altKey && e.code === "KeyZ") {
+        e.preventDefault();
+        setSettings((s) => ({ ...s, xray: !s.xray }));
+      } else if (e.shiftKey && e.key === "Tab") {
+        e.preventDefault();
+        setSettings((s) => ({ ...s, snapEnabled: !s.snapEnabled }));
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  // stable, so callbacks that only write settings don't change with them
+  const update = useCallback<ToolSettingsApi["update"]>(
+    (patch) => setSettings((s) => ({ ...s, ...patch })),
+    [],
+  );
+
+  const api = useMemo<ToolSettingsApi>(
+    () => ({ settings, update }),
+    [settings, update],
+  );
+
+  return (
+    <ToolSettingsContext.Provider value={api}>
+      {children}
+    </ToolSettingsContext.Provider>
+  );
+}
+
+export function useToolSettings() {
+  const ctx = useContext(ToolSettingsContext);
+  if (!ctx)
+    throw new Error(
+      "useToolSettings must be used inside <ToolSettingsProvider />",
+    );
+  return ctx;
+}
@@ -1,12 +1,14 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import { isEditableTarget } from "../helpers/keyboard";
 
 export function useKeyHeld(key: string) {
   const [held, setHeld] = useState(false);
 
   useEffect(() => {
     const onDown = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target)) return;
       if (e.key.toLowerCase() === key.toLowerCase()) setHeld(true);
     };
     const onUp = (e: KeyboardEvent) => {
@@ -1,8 +1,15 @@
 "use client";
 
 import * as THREE from "three";
-import { useEffect, useMemo, useState, useRef, type RefObject } from "react";
-import { Canvas } from "@react-three/fiber";
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  useRef,
+  type RefObject,
+} from "react";
+import { Canvas, useThree } from "@react-three/fiber";
 import {
   ContactShadows,
   Environment,
@@ -14,22 +21,78 @@ import {
   Center,
 } from "@react-three/drei";
 import type { OrbitControls as OrbitControlsImpl } from "three-stdlib";
-import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
-import { GLTFExporter } from "three/examples/jsm/exporters/GLTFExporter.js";
 import { SelectionProvider, useSelectionRegistry } from "./hooks/selection";
-import BoxSelect from "./components/box-select";
+import { HistoryProvider, useHistory, useHistoryState } from "./hooks/history";
+import { HandlesProvider, useHandles } from "./hooks/handles";
+import { ShapeKeysProvider, useShapeKeys } from "./hooks/shape-keys";
+import { ToolSettingsProvider, useToolSettings } from "./hooks/tool-settings";
+import { rememberBasePositions } from "./helpers/shape-keys";
+import { rememberBaseNormals } from "./helpers/normals";
+import { rememberPrimitiveRefs } from "./helpers/gltf-patch";
+import { VIEWER_FRAMING } from "./helpers/units";
+import { hashBytes, type LoadedModel } from "./helpers/project";
+import {
+  loadModel,
+  MODEL_EXTENSIONS,
+  type Companions,
+} from "./helpers/loaders";
+import { pickModel, readDroppedFiles } from "./helpers/dropped-files";
+import RegionSelect from "./components/region-select";
 import MoveSelected from "./components/move-selected";
+import InfluenceHandles from "./components/influence-handles";
+import SelectionOperators from "./components/selection-operators";
+import ModalTransform from "./components/modal-transform";
+import InfluencePanel from "./components/influence-panel";
+import ShapeKeysPanel from "./components/shape-keys-panel";
+import SelectionPanel from "./components/selection-panel";
+import SculptBrush from "./components/sculpt-brush";
+import SculptPanel from "./components/sculpt-panel";
+import RelaxPanel from "./components/relax-panel";
+import MirrorPanel from "./components/mirror-panel";
+import SnapPanel from "./components/snap-panel";
+import ProjectPanel from "./components/project-panel";
+import ExportPanel from "./components/export-panel";
 import { SelectableVertices } from "./components/selectable-vertices";
 import { useKeyHeld } from "./hooks/useKeyHeld";
 
 type LoadedRoot = THREE.Object3D | null;
 
+// Viewer-only placement of the model, applied by a wrapper group so the
+// model's own transforms (and the exported file) stay in its original units
+type Framing = { position: THREE.Vector3; scale: number };
+
+// viewport grid cell, also the grid snapping step
+const GRID_CELL = 0.1;
+
 export default function Viewer() {
   const [fileUrl, setFileUrl] = useState<string | null>(null);
   const [fileName, setFileName] = useState<string>("");
+  // the dropped file itself (project files and the export refer to it)
+  const [model, setModel] = useState<LoadedModel | null>(null);
+  // set once the loaded model's meshes are editable
+  const [readyRoot, setReadyRoot] = useState<THREE.Object3D | null>(null);
+  // files dropped along with the model (an OBJ's .mtl)
+  const [companions, setCompanions] = useState<Companions>(new Map());
+  const [loadError, setLoadError] = useState<string | null>(null);
   const orbitRef = useRef<OrbitControlsImpl | null>(null);
   const overlayRef = useRef<HTMLDivElement>(null);
-  const loadedRootRef = useRef<THREE.Object3D | null>(null);
+
+  const openModel = useCallback(
+    async (name: string, bytes: ArrayBuffer, extra?: Companions) => {
+      const hash = await hashBytes(bytes);
+      const url = URL.createObjectURL(new Blob([bytes]));
+      setReadyRoot(null);
+      setLoadError(null);
+      setCompanions(extra ?? new Map());
+      setModel({ name, bytes, hash });
+      setFileName(name);
+      setFileUrl((prev) => {
+        if (prev) URL.revokeObjectURL(prev);
+        return url;
+      });
+    },
+    [],
+  );
 
   // Drag & drop handler
   useEffect(() => {
@@ -38,21 +101,27 @@ export default function Viewer() {
       if (e.dataTransfer) e.dataTransfer.dropEffect = "copy";
     };
 
-    const onDrop = (e: DragEvent) => {
+    const onDrop = async (e: DragEvent) => {
       e.preventDefault();
-      const file = e.dataTransfer?.files?.[0];
-      if (!file) return;
-
-      const lower = file.name.toLowerCase();
-      const ok = lower.endsWith(".glb") || lower.endsWith(".gltf");
-      if (!ok) return;
+      if (!e.dataTransfer) return;
+
+      // files and folders: the model file is loaded, the others are the files
+      // it may refer to (.bin, textures, .mtl)
+      const files = await readDroppedFiles(e.dataTransfer);
+      if (!files.length) return;
+      const picked = pickModel(files);
+      if (!picked) {
+        setLoadError(
+          `unsupported file type: ${files[0].file.name} (use ${MODEL_EXTENSIONS.join(", ")})`,
+        );
+        return;
+      }
 
-      const url = URL.createObjectURL(file);
-      setFileName(file.name);
-      setFileUrl((prev) => {
-        if (prev) URL.revokeObjectURL(prev);
-        return url;
-      });
+      const { file, companions: extra } = picked;
+      file
+        .arrayBuffer()
+        .then((bytes) => openModel(file.name, bytes, extra))
+        .catch((err) => setLoadError(`couldn't read ${file.name}: ${err}`));
     };
 
     window.addEventListener("dragover", onDragOver);
@@ -61,153 +130,108 @@ export default function Viewer() {
       window.removeEventListener("dragover", onDragOver);
       window.removeEventListener("drop", onDrop);
     };
-  }, []);
-
-  function downloadDeformedMesh() {
-    const root = loadedRootRef.current;
-    if (!root) return;
-
-    // Ensure matrices are up to date (important before baking)
-    root.updateWorldMatrix(true, true);
-
-    // Collect ONLY meshes from the loaded GLTF root
-    const exportGroup = new THREE.Group();
-    exportGroup.name = "deformed";
-
-    root.traverse((obj) => {
-      const anyObj = obj as any;
-
-      if (anyObj.isMesh || anyObj.isSkinnedMesh) {
-        const mesh = obj as THREE.Mesh;
-
-        // Clone geometry so we export the deformed state
-        const srcGeom = mesh.geometry as THREE.BufferGeometry | undefined;
-        if (!srcGeom?.attributes?.position) return;
-
-        const isSkinned = (mesh as any).isSkinnedMesh === true;
-
-        // IMPORTANT:
-        // - For regular Mesh: bake world transform into geometry so exported file matches what you see
-        // - For SkinnedMesh: baking like this usually breaks skinning. We export it without baking.
-        const geom = srcGeom.clone();
-
-        if (!isSkinned) {
-          geom.applyMatrix4(mesh.matrixWorld);
-        }
-
-        // Materials: keep as-is (clone optional)
-        const mat = Array.isArray(mesh.material)
-          ? mesh.material.map((m) => m.clone())
-          : mesh.material.clone();
-
-        const outMesh = new THREE.Mesh(geom, mat);
-        outMesh.name = mesh.name || "mesh";
-
-        // If not baked (skinned), preserve transform; if baked, identity is correct
-        if (isSkinned) {
-          outMesh.position.copy(mesh.getWorldPosition(new THREE.Vector3()));
-          outMesh.quaternion.copy(
-            mesh.getWorldQuaternion(new THREE.Quaternion()),
-          );
-          outMesh.scale.copy(mesh.getWorldScale(new THREE.Vector3()));
-        } else {
-          outMesh.position.set(0, 0, 0);
-          outMesh.quaternion.identity();
-          outMesh.scale.set(1, 1, 1);
-        }
-
-        // Copy a couple useful flags
-        outMesh.castShadow = false;
-        outMesh.receiveShadow = false;
-
-        exportGroup.add(outMesh);
-      }
-    });
-
-    // Export to GLB
-    const exporter = new GLTFExporter();
-    exporter.parse(
-      exportGroup,
-      (result) => {
-        const base =
-          (fileName?.replace(/\.(glb|gltf)$/i, "") || "model") +
-          "_deformed.glb";
-
-        if (result instanceof ArrayBuffer) {
-          const blob = new Blob([result], { type: "model/gltf-binary" });
-          const url = URL.createObjectURL(blob);
-
-          const a = document.createElement("a");
-          a.href = url;
-          a.download = base;
-          document.body.appendChild(a);
-          a.click();
-          a.remove();
-
-          URL.revokeObjectURL(url);
-        } else {
-          // (Shouldn't happen because we request binary: true)
-          const json = JSON.stringify(result);
-          const blob = new Blob([json], { type: "application/json" });
-          const url = URL.createObjectURL(blob);
-
-          const a = document.createElement("a");
-          a.href = url;
-          a.download = base.replace(/\.glb$/i, ".gltf");
-          document.body.appendChild(a);
-          a.click();
-          a.remove();
-
-          URL.revokeObjectURL(url);
-        }
-      },
-      (err) => console.error("GLTF export error:", err),
-      {
-        binary: true,
-        // embedImages: true, // optional
-        // onlyVisible: true, // optional
-        // truncateDrawRange: true, // optional
-      },
-    );
-  }
+  }, [openModel]);
 
   return (
-    <div style={{ width: "100%", height: "100vh", background: "#2b2b2b" }}>
-      {/* HUD */}
-      <div className="absolute top-3 left-3 z-10 p-3 rounded-lg bg-black/45 text-white text-sm font-sans pointer-events-auto user-select-none">
-        <span className="block">
-          <strong>drag & drop .glb/.gltf</strong>
-        </span>
-        <span className="block opacity-80">
-          {fileUrl ? `loaded: ${fileName}` : "no model loaded yet"}
-        </span>
-
-        {fileUrl && (
-          <button
-            className="mt-2 px-3 py-1 rounded bg-white/15 hover:bg-white/25 disabled:opacity-40"
-            onClick={downloadDeformedMesh}
-            type="button"
-          >
-            download deformed mesh (.glb)
-          </button>
-        )}
-      </div>
+    <HistoryProvider>
+      <ToolSettingsProvider>
+        <SelectionProvider>
+          <HandlesProvider>
+            <ShapeKeysProvider>
+              <div
+                style={{
+                  width: "100%",
+                  height: "100vh",
+                  background: "#2b2b2b",
+                }}
+              >
+                {/* HUD */}
+                <div className="absolute top-3 left-3 z-10 p-3 rounded-lg bg-black/45 text-white text-sm font-sans pointer-events-auto user-select-none">
+                  <span className="block">
+                    <strong>
+                      drag & drop a model ({MODEL_EXTENSIONS.join(" ")})
+                    </strong>
+                  </span>
+                  <span className="block opacity-80">
+                    {fileUrl ? `loaded: ${fileName}` : "no model loaded yet"}
+                  </span>
+                  {loadError && (
+                    <span className="block text-amber-300">{loadError}</span>
+                  )}
+
+                  {fileUrl && (
+                    <ExportPanel
+                      model={model}
+                      root={readyRoot}
+                      companions={companions}
+                    />
+                  )}
+
+                  <ProjectPanel
+                    model={model}
+                    root={readyRoot}
+                    openModel={openModel}
+                  />
+
+                  {fileUrl && <HistoryButtons />}
+                  {fileUrl && <SelectionPanel />}
+                  {fileUrl && <RelaxPanel />}
+                  {fileUrl && <MirrorPanel root={readyRoot} />}
+                  {fileUrl && <SnapPanel />}
+                  {fileUrl && <SculptPanel />}
+                  {fileUrl && <InfluencePanel />}
+                  {fileUrl && <ShapeKeysPanel />}
+                </div>
+
+                <div
+                  ref={overlayRef}
+                  className="absolute inset-0 pointer-events-none z-50"
+                />
+
+                <ViewerCanvas
+                  fileUrl={fileUrl}
+                  fileName={fileName}
+                  companions={companions}
+                  orbitRef={orbitRef}
+                  overlayRef={overlayRef}
+                  onReady={setReadyRoot}
+                  onError={setLoadError}
+                />
+              </div>
+            </ShapeKeysProvider>
+          </HandlesProvider>
+        </SelectionProvider>
+      </ToolSettingsProvider>
+    </HistoryProvider>
+  );
+}
 
-      <div
-        ref={overlayRef}
-        className="absolute inset-0 pointer-events-none z-50"
-      />
+function HistoryButtons() {
+  const history = useHistory();
+  const { canUndo, canRedo, undoLabel, redoLabel } = useHistoryState();
 
-      <SelectionProvider>
-        <ViewerCanvas
-          fileUrl={fileUrl}
-          orbitRef={orbitRef}
-          overlayRef={overlayRef}
-          onRoot={(r) => {
-            loadedRootRef.current = r;
-          }}
-        />
-      </SelectionProvider>
+  return (
+    <div className="mt-2 flex gap-2">
+      <button
+        className="px-3 py-1 rounded bg-white/15 hover:bg-white/25 disabled:opacity-40"
+        onClick={history.undo}
+        disabled={!canUndo}
+        title={undoLabel ? `undo ${undoLabel} (ctrl+z)` : "undo (ctrl+z)"}
+        type="button"
+      >
+        undo
+      </button>
+      <button
+        className="px-3 py-1 rounded bg-white/15 hover:bg-white/25 disabled:opacity-40"
+        onClick={history.redo}
+        disabled={!canRedo}
+        title={
+          redoLabel ? `redo ${redoLabel} (ctrl+shift+z)` : "redo (ctrl+shift+z)"
+        }
+        type="button"
+      >
+        redo
+      </button>
     </div>
   );
 }
@@ -237,45 +261,63 @@ function Lights() {
 
 function DroppedModel({
   url,
-  onRoot,
+  fileName,
+  companions,
+  onReady,
+  onError,
 }: {
   url: string;
-  onRoot?: (root: THREE.Object3D | null) => void;
+  fileName: string;
+  companions?: Companions;
+  onReady?: (root: THREE.Object3D) => void;
+  onError?: (message: string) => void;
 }) {
-  const loader = useMemo(() => new GLTFLoader(), []);
   const [root, setRoot] = useState<LoadedRoot>(null);
+  const [framing, setFraming] = useState<Framing | null>(null);
+  const history = useHistory();
+  const { clear: clearHandles } = useHandles();
+  const { sync: syncShapeKeys } = useShapeKeys();
+  const gl = useThree((s) => s.gl);
 
   useEffect(() => {
     let cancelled = false;
 
-    loader.load(
-      url,
-      (gltf) => {
+    loadModel({ url, fileName, companions, renderer: gl })
+      .then(({ root: scene, gltf }) => {
         if (cancelled) return;
 
-        const scene = gltf.scene.clone(true);
+        // used as-is (not cloned): the export maps meshes back to the file
+        // through the loader's associations
+        if (gltf) rememberPrimitiveRefs(gltf);
 
         scene.traverse((o) => {
           if ((o as THREE.Mesh).isMesh) {
             const m = o as THREE.Mesh;
             m.castShadow = true;
             m.receiveShadow = true;
+            // basis for shape keys (and mirror pairs)
+            rememberBasePositions(m.geometry);
+            // edits turn these rather than recomputing them
+            rememberBaseNormals(m.geometry);
           }
         });
 
-        fitToUnit(scene, 1.6);
+        // edits/handles on the previous model don't apply to this one
+        history.clear();
+        clearHandles();
+        setFraming(fitToUnit(scene, 1.6));
         setRoot(scene);
-        onRoot?.(scene);
-      },
-      undefined,
-      (err) => console.error("GLTF load error:", err),
-    );
+      })
+      .catch((err: Error) => {
+        if (cancelled) return;
+        console.error("Model load error:", err);
+        onError?.(err.message);
+      });
 
     return () => {
       cancelled = true;
-      onRoot?.(null);
     };
-  }, [url, loader, onRoot]);
+  }, [url, fileName, companions, gl, onError, history, clearHandles]);
 
   const meshes = useMemo(() => {
     if (!root) return [];
@@ -290,10 +332,24 @@ function DroppedModel({
     return arr;
   }, [root]);
 
+  // pick up morph targets the file already had (entries register in child effects first)
+  useEffect(() => {
+    syncShapeKeys();
+  }, [meshes, syncShapeKeys]);
+
+  // the meshes' entries are registered by now too
+  useEffect(() => {
+    if (root) onReady?.(root);
+  }, [root, onReady]);
+
   if (!root) return null;
 
   return (
-    <group>
+    <group
+      position={framing?.position}
+      scale={framing?.scale}
+      userData={{ [VIEWER_FRAMING]: true }}
+    >
       <primitive object={root} />
       {meshes.map((m) => (
         <SelectableVertices
@@ -310,17 +366,27 @@ function DroppedModel({
 
 function ViewerCanvas({
   fileUrl,
+  fileName,
+  companions,
   orbitRef,
   overlayRef,
-  onRoot,
+  onReady,
+  onError,
 }: {
   fileUrl: string | null;
+  fileName: string;
+  companions: Companions;
   orbitRef: RefObject<any>;
   overlayRef: RefObject<HTMLDivElement | null>;
-  onRoot?: (root: THREE.Object3D | null) => void;
+  onReady?: (root: THREE.Object3D) => void;
+  onError?: (message: string) => void;
 }) {
   const registry = useSelectionRegistry();
+  const history = useHistory();
+  const handles = useHandles();
   const gHeld = useKeyHeld("g");
+  const hHeld = useKeyHeld("h");
+  const { sculptEnabled } = useToolSettings().settings;
 
   return (
     <Canvas
@@ -342,7 +408,10 @@ function ViewerCanvas({
         raycaster.params.Points.threshold = 0.02;
       }}
       onPointerMissed={() => {
-        if (!gHeld) registry.clearAllSelections();
+        // sculpt clicks are dabs, not selection clicks
+        if (gHeld || hHeld || sculptEnabled) return;
+        history.transact("clear selection", registry.clearAllSelections);
+        handles.select(null);
       }}
     >
       <PerspectiveCamera
@@ -364,7 +433,7 @@ function ViewerCanvas({
         infiniteGrid
         fadeDistance={18}
         fadeStrength={1.2}
-        cellSize={0.1}
+        cellSize={GRID_CELL}
         cellThickness={0.6}
         sectionSize={1}
         sectionThickness={1.25}
@@ -385,7 +454,15 @@ function ViewerCanvas({
       <Environment preset="studio" intensity={0.7} />
 
       <Center position={[0, 0.9, 0]}>
-        {fileUrl && <DroppedModel url={fileUrl} onRoot={onRoot} />}
+        {fileUrl && (
+          <DroppedModel
+            url={fileUrl}
+            fileName={fileName}
+            companions={companions}
+            onReady={onReady}
+            onError={onError}
+          />
+        )}
       </Center>
 
       <OrbitControls
@@ -400,13 +477,27 @@ function ViewerCanvas({
         maxDistance={25}
       />
 
-      <BoxSelect
+      <RegionSelect
         controlsRef={orbitRef}
         overlayRef={overlayRef}
-        requireKey="b"
+        boxKey="b"
+        lassoKey="f"
+        circleKey="c"
       />
 
-      <MoveSelected controlsRef={orbitRef} requireKey="g" />
+      <SelectionOperators />
+
+      <MoveSelected
+        controlsRef={orbitRef}
+        requireKey="g"
+        gridSize={GRID_CELL}
+      />
+
+      <ModalTransform controlsRef={orbitRef} overlayRef={overlayRef} />
+
+      <InfluenceHandles controlsRef={orbitRef} requireKey="h" />
+
+      <SculptBrush controlsRef={orbitRef} toggleKey="Tab" />
 
       <GizmoHelper alignment="bottom-right" margin={[80, 80]}>
         <GizmoViewport
@@ -418,7 +509,9 @@ function ViewerCanvas({
   );
 }
 
-function fitToUnit(object3D: THREE.Object3D, targetSize = 1.6) {
+// Scale to `targetSize`, centred on X/Z and resting on the floor.
+// Returns the framing instead of touching object3D's own transform.
+function fitToUnit(object3D: THREE.Object3D, targetSize = 1.6): Framing {
   const box = new THREE.Box3().setFromObject(object3D);
   const size = new THREE.Vector3();
   const center = new THREE.Vector3();
@@ -428,10 +521,10 @@ function fitToUnit(object3D: THREE.Object3D, targetSize = 1.6) {
   const maxDim = Math.max(size.x, size.y, size.z) || 1;
   const scale = targetSize / maxDim;
 
-  object3D.position.sub(center);
-  object3D.scale.setScalar(scale);
-
-  const box2 = new THREE.Box3().setFromObject(object3D);
-  const minY = box2.min.y;
-  object3D.position.y -= minY;
+  const position = new THREE.Vector3(
+    -center.x * scale,
+    -box.min.y * scale,
+    -center.z * scale,
+  );
+  return { position, scale };
 }
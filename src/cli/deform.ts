@@ -0,0 +1,166 @@
+// Headless batch deformation of glTF files:
+//
+//   deform apply model.glb --recipe edits.json [-o out.glb]
+//   (or npm run deform -- apply ... inside the repo)
+//
+// Loads the model, runs the recipe's moves with the viewer's deformation core
+// and writes the file the way the viewer's export does (a patch of the
+// original, so everything but the moved vertices is kept as it was).
+// Deliberately not GLTFExporter: a re-export of the three.js scene would drop
+// what three.js doesn't model (extensions, extras, compression, quantization,
+// unused nodes) and needs FileReader / canvas for textures, which Node lacks,
+// and it would no longer match what the viewer exports for the same moves.
+import * as THREE from "three";
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import { MeshoptDecoder } from "three/examples/jsm/libs/meshopt_decoder.module.js";
+import {
+  patchGltf,
+  readGltf,
+  rememberPrimitiveRefs,
+  writeGlb,
+} from "../app/helpers/gltf-patch";
+import { rememberBasePositions } from "../app/helpers/shape-keys";
+import { rememberBaseNormals } from "../app/helpers/normals";
+import { embedResources } from "../app/helpers/export";
+import { consolidateBuffers } from "../app/helpers/gltf-compress";
+import {
+  modelFormat,
+  toFloatAttributes,
+  type Companions,
+} from "../app/helpers/loaders";
+import { applyRecipe, parseRecipe } from "./recipe";
+
+const USAGE = `usage: deform apply <model.glb|model.gltf> --recipe <edits.json> [-o <out.glb>]
+
+The recipe is JSON: { "operations": [ { "pivot": [x, y, z], "delta": [x, y, z],
+  "radius": r, "falloff": "smooth" | "gaussian" | "sharp",
+  "mode": "euclidean" | "connected", "mesh": "name or path", "vertices": [i, ...] } ] }
+in the model's own units.`;
+
+function parseArgs(argv: string[]) {
+  const [command, input, ...rest] = argv;
+  if (command !== "apply" || !input) return null;
+
+  let recipe: string | undefined;
+  let output: string | undefined;
+  for (let i = 0; i < rest.length; i++) {
+    const flag = rest[i];
+    const value = rest[i + 1];
+    if (!value) return null;
+    if (flag === "--recipe" || flag === "-r") recipe = value;
+    else if (flag === "--output" || flag === "-o") output = value;
+    else return null;
+    i++;
+  }
+  if (!recipe) return null;
+
+  output ??= path.join(
+    path.dirname(input),
+    `${path.basename(input, path.extname(input))}_deformed.glb`,
+  );
+  return { input, recipe, output };
+}
+
+// The files a .gltf refers to, read from next to it
+async function readCompanions(file: string, bytes: ArrayBuffer) {
+  const { json } = readGltf(bytes);
+  const companions: Companions = new Map();
+  for (const r of [...(json.buffers ?? []), ...(json.images ?? [])]) {
+    if (r.uri === undefined || r.uri.startsWith("data:")) continue;
+    const data = await readFile(
+      path.resolve(path.dirname(file), decodeURIComponent(r.uri)),
+    );
+    companions.set(r.uri.toLowerCase(), new Blob([data]));
+  }
+  return companions;
+}
+
+// Node has no image decoding (nor workers for Draco), and only the meshes are
+// edited: load a copy without textures and materials, with every buffer in the
+// GLB body so nothing is fetched. Mesh and primitive indices are unchanged, so
+// the patch still maps onto the original file.
+async function loadMeshes(bytes: ArrayBuffer) {
+  const { json, bin } = readGltf(bytes);
+  if (json.extensionsUsed?.includes("KHR_draco_mesh_compression"))
+    throw new Error(
+      "Draco-compressed models can't be loaded in Node; export the model uncompressed or with meshopt",
+    );
+
+  const stripped = json as typeof json & Record<string, unknown>;
+  delete stripped.images;
+  delete stripped.textures;
+  delete stripped.samplers;
+  delete stripped.materials;
+  for (const mesh of json.meshes ?? []) {
+    for (const prim of mesh.primitives) {
+      delete (prim as typeof prim & { material?: number }).material;
+    }
+  }
+
+  const loader = new GLTFLoader().setMeshoptDecoder(MeshoptDecoder);
+  const body = consolidateBuffers(json, bin ?? new Uint8Array(0));
+  const gltf = await loader.parseAsync(writeGlb(json, body), "");
+  rememberPrimitiveRefs(gltf);
+
+  const meshes: THREE.Mesh[] = [];
+  gltf.scene.traverse((o) => {
+    if (!(o as THREE.Mesh).isMesh) return;
+    const mesh = o as THREE.Mesh;
+    // quantized files: edited as floats, like in the viewer
+    toFloatAttributes(mesh.geometry);
+    rememberBasePositions(mesh.geometry);
+    rememberBaseNormals(mesh.geometry);
+    meshes.push(mesh);
+  });
+  return { root: gltf.scene, meshes };
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args) {
+    console.error(USAGE);
+    return 2;
+  }
+  if (modelFormat(args.input) !== "gltf") {
+    console.error(
+      `${args.input}: only glTF models (.glb / .gltf) can be deformed`,
+    );
+    return 2;
+  }
+
+  const read = async (file: string) => {
+    const data = await readFile(file);
+    return data.buffer.slice(
+      data.byteOffset,
+      data.byteOffset + data.byteLength,
+    ) as ArrayBuffer;
+  };
+
+  const source = await read(args.input);
+  const recipe = parseRecipe(
+    JSON.parse(new TextDecoder().decode(await read(args.recipe))),
+  );
+  const model = await embedResources(
+    source,
+    await readCompanions(args.input, source),
+  );
+
+  const { root, meshes } = await loadMeshes(model);
+  const moved = applyRecipe(root, recipe);
+  await writeFile(args.output, new Uint8Array(patchGltf(model, meshes)));
+
+  console.log(
+    `${recipe.operations.length} operation(s), ${moved} vertices moved -> ${args.output}`,
+  );
+  return 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (err: Error) => {
+    console.error(`deform: ${err.message}`);
+    process.exit(1);
+  },
+);
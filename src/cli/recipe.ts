@@ -0,0 +1,176 @@
+import * as THREE from "three";
+import type { Falloff, ProportionalMode } from "../app/helpers/vertex-edit";
+import { moveDistances, moveVertices } from "../app/helpers/deform";
+import { expandWelded, getWeldMap } from "../app/helpers/weld";
+import { objectPath } from "../app/helpers/project";
+import { updateNormals } from "../app/helpers/normals";
+
+type Vec3 = [number, number, number];
+
+// One move of the move tool, in the model's own units and space.
+// `mesh` is a node name or a path as in project files (every mesh if omitted);
+// `vertices` are moved fully, like a selection, and need `mesh`. With a
+// `radius`, the vertices around `pivot` follow by falloff.
+export type MoveOperation = {
+  mesh?: string;
+  pivot: Vec3;
+  delta: Vec3;
+  radius?: number;
+  falloff?: Falloff;
+  mode?: ProportionalMode;
+  vertices?: number[];
+};
+
+export type Recipe = { operations: MoveOperation[] };
+
+const FALLOFFS: Falloff[] = ["smooth", "gaussian", "sharp"];
+const MODES: ProportionalMode[] = ["euclidean", "connected"];
+
+const isVec3 = (v: unknown): v is Vec3 =>
+  Array.isArray(v) &&
+  v.length === 3 &&
+  v.every((n) => typeof n === "number" && Number.isFinite(n));
+
+// Validates parsed JSON as a recipe; throws an Error with a readable message
+export function parseRecipe(json: unknown): Recipe {
+  const ops = (json as Partial<Recipe> | null)?.operations;
+  if (!Array.isArray(ops)) throw new Error('recipe needs an "operations" list');
+
+  ops.forEach((op: Partial<MoveOperation>, k) => {
+    const fail = (msg: string) => {
+      throw new Error(`operation ${k + 1}: ${msg}`);
+    };
+    if (!op || typeof op !== "object") fail("not an object");
+    if (!isVec3(op.pivot)) fail("pivot must be [x, y, z]");
+    if (!isVec3(op.delta)) fail("delta must be [x, y, z]");
+    if (op.mesh !== undefined && typeof op.mesh !== "string")
+      fail("mesh must be a name or path");
+    if (
+      op.radius !== undefined &&
+      (typeof op.radius !== "number" || !(op.radius >= 0))
+    )
+      fail("radius must be a number >= 0");
+    if (op.falloff !== undefined && !FALLOFFS.includes(op.falloff))
+      fail(`falloff must be one of ${FALLOFFS.join(", ")}`);
+    if (op.mode !== undefined && !MODES.includes(op.mode))
+      fail(`mode must be one of ${MODES.join(", ")}`);
+    if (op.vertices !== undefined) {
+      if (
+        !Array.isArray(op.vertices) ||
+        !op.vertices.every((i) => Number.isInteger(i) && i >= 0)
+      )
+        fail("vertices must be a list of vertex indices");
+      if (op.mesh === undefined) fail("vertices need a mesh");
+    }
+    if (!op.radius && !op.vertices?.length)
+      fail("nothing would move: give a radius or vertices");
+  });
+  return { operations: ops };
+}
+
+// Runs the recipe on the meshes below `root` (which must not be inside any
+// transformed parent: world space is the model's space). Returns the number
+// of vertices that moved.
+export function applyRecipe(root: THREE.Object3D, recipe: Recipe) {
+  root.updateMatrixWorld(true);
+
+  // meshes sharing a geometry (instances of one glTF mesh) are moved once
+  const meshes: { mesh: THREE.Mesh; path: string }[] = [];
+  const geometries = new Set<THREE.BufferGeometry>();
+  root.traverse((o) => {
+    const mesh = o as THREE.Mesh;
+    if (!mesh.isMesh || geometries.has(mesh.geometry)) return;
+    if (!mesh.geometry.getAttribute("position")) return;
+    geometries.add(mesh.geometry);
+    meshes.push({ mesh, path: objectPath(root, mesh) });
+  });
+
+  const moved = new Map<THREE.BufferGeometry, Set<number>>();
+  recipe.operations.forEach((op, k) => {
+    const targets = op.mesh
+      ? meshes.filter((m) => m.path === op.mesh || m.mesh.name === op.mesh)
+      : meshes;
+    if (!targets.length)
+      throw new Error(`operation ${k + 1}: no mesh "${op.mesh}"`);
+
+    for (const { mesh } of targets) {
+      const changed = moveMesh(mesh, op, k);
+      const set = moved.get(mesh.geometry) ?? new Set();
+      for (const i of changed) set.add(i);
+      moved.set(mesh.geometry, set);
+    }
+  });
+
+  let count = 0;
+  for (const set of moved.values()) count += set.size;
+  return count;
+}
+
+// Indices of the vertices that moved
+function moveMesh(mesh: THREE.Mesh, op: MoveOperation, k: number) {
+  const geom = mesh.geometry;
+  const pos = geom.getAttribute("position") as THREE.BufferAttribute;
+  const start = (pos.array as Float32Array).slice();
+
+  const outOfRange = op.vertices?.find((i) => i >= pos.count);
+  if (outOfRange !== undefined)
+    throw new Error(
+      `operation ${k + 1}: "${mesh.name}" has no vertex ${outOfRange} (${pos.count} vertices)`,
+    );
+  const selected = expandWelded(getWeldMap(geom), op.vertices ?? []);
+
+  const pivotWorld = new THREE.Vector3(...op.pivot);
+  const pivotLocal = mesh.worldToLocal(pivotWorld.clone());
+  const opts = op.radius
+    ? {
+        proportionalEnabled: true,
+        radiusWorld: op.radius,
+        falloff: op.falloff ?? "smooth",
+        proportionalMode: op.mode ?? "euclidean",
+      }
+    : null;
+
+  moveVertices({
+    mesh,
+    target: pos,
+    from: start,
+    selected,
+    pivotLocal,
+    transform: {
+      pivotWorld,
+      translationWorld: new THREE.Vector3(...op.delta),
+      rotationWorld: new THREE.Quaternion(),
+      scaleWorld: new THREE.Vector3(1, 1, 1),
+    },
+    opts,
+    // seeded with the vertices as given, like the viewer's selection
+    distances: opts
+      ? moveDistances({
+          mesh,
+          positions: start,
+          selected: op.vertices ?? [],
+          pivotLocal,
+          opts,
+        })
+      : null,
+  });
+
+  const arr = pos.array as Float32Array;
+  const changed: number[] = [];
+  for (let i = 0; i < pos.count; i++) {
+    const ix = i * 3;
+    if (
+      arr[ix] !== start[ix] ||
+      arr[ix + 1] !== start[ix + 1] ||
+      arr[ix + 2] !== start[ix + 2]
+    )
+      changed.push(i);
+  }
+
+  // as the viewer does after every move
+  pos.needsUpdate = true;
+  geom.computeBoundingBox();
+  geom.computeBoundingSphere();
+  updateNormals(geom, changed);
+  return changed;
+}
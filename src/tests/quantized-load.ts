@@ -0,0 +1,110 @@
+// Loads a KHR_mesh_quantization glTF (interleaved, normalized Int16 positions
+// and Int8 normals, as gltfpack writes them) the way the viewer and the CLI do,
+// and checks the edited attributes come out as plain Float32 data.
+// Run with `npm test`.
+import * as THREE from "three";
+import assert from "node:assert/strict";
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import { writeGlb, type GltfJson } from "../app/helpers/gltf-patch";
+import { toFloatAttributes } from "../app/helpers/loaders";
+
+const POSITIONS = [
+  [0, 0, 0],
+  [1, 0, 0],
+  [1, 1, 0],
+  [0, -0.5, 0.25],
+];
+
+function quantizedGlb() {
+  // positions: 4 x (3 x i16 + 2 bytes padding), byteStride 8
+  const positions = new DataView(new ArrayBuffer(32));
+  POSITIONS.forEach((p, i) =>
+    p.forEach((v, c) =>
+      positions.setInt16(i * 8 + c * 2, Math.round(v * 32767), true),
+    ),
+  );
+  // normals: 4 x (3 x i8 + 1 byte padding), +Z
+  const normals = new Int8Array(16);
+  for (let i = 0; i < 4; i++) normals[i * 4 + 2] = 127;
+  const indices = new Uint16Array([0, 1, 2, 0, 2, 3]);
+
+  const bin = new Uint8Array(32 + 16 + 12);
+  bin.set(new Uint8Array(positions.buffer), 0);
+  bin.set(new Uint8Array(normals.buffer), 32);
+  bin.set(new Uint8Array(indices.buffer), 48);
+
+  const json = {
+    asset: { version: "2.0" },
+    extensionsUsed: ["KHR_mesh_quantization"],
+    extensionsRequired: ["KHR_mesh_quantization"],
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ mesh: 0 }],
+    meshes: [
+      {
+        primitives: [{ attributes: { POSITION: 0, NORMAL: 1 }, indices: 2 }],
+      },
+    ],
+    buffers: [{ byteLength: bin.length }],
+    bufferViews: [
+      { buffer: 0, byteOffset: 0, byteLength: 32, byteStride: 8 },
+      { buffer: 0, byteOffset: 32, byteLength: 16, byteStride: 4 },
+      { buffer: 0, byteOffset: 48, byteLength: 12 },
+    ],
+    accessors: [
+      {
+        bufferView: 0,
+        componentType: 5122,
+        normalized: true,
+        count: 4,
+        type: "VEC3",
+        min: [0, -0.5, 0],
+        max: [1, 1, 0.25],
+      },
+      {
+        bufferView: 1,
+        componentType: 5120,
+        normalized: true,
+        count: 4,
+        type: "VEC3",
+      },
+      { bufferView: 2, componentType: 5123, count: 6, type: "SCALAR" },
+    ],
+  } as unknown as GltfJson;
+  return writeGlb(json, bin);
+}
+
+async function main() {
+  const gltf = await new GLTFLoader().parseAsync(quantizedGlb(), "");
+  const mesh = gltf.scene.getObjectByProperty("isMesh", true) as THREE.Mesh;
+  const geom = mesh.geometry;
+
+  // the fixture really is quantized as loaded
+  const raw = geom.getAttribute("position");
+  assert.ok(raw instanceof THREE.InterleavedBufferAttribute);
+  assert.ok(raw.normalized);
+
+  toFloatAttributes(geom);
+
+  for (const name of ["position", "normal"]) {
+    const attr = geom.getAttribute(name);
+    assert.ok(attr instanceof THREE.BufferAttribute, `${name} is interleaved`);
+    assert.ok(attr.array instanceof Float32Array, `${name} isn't Float32`);
+    assert.equal(attr.normalized, false);
+    assert.equal(attr.array.length, 12);
+  }
+
+  const pos = geom.getAttribute("position").array as Float32Array;
+  POSITIONS.flat().forEach((v, k) =>
+    assert.ok(Math.abs(pos[k] - v) <= 1 / 32767, `position ${k}: ${pos[k]}`),
+  );
+  const normal = geom.getAttribute("normal").array as Float32Array;
+  for (let i = 0; i < 4; i++) assert.equal(normal[i * 3 + 2], 1);
+
+  console.log("quantized glTF loads with Float32 positions and normals: ok");
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});